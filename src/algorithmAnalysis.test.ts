@@ -0,0 +1,77 @@
+import { analyze_algorithm, preserves_layer } from "./algorithmAnalysis";
+import { find_algorithm } from "./algorithmLibrary";
+import { parse_moves } from "./moveNotation";
+import { random_move_scramble } from "./rubiksCube";
+import { seeded_random } from "./random";
+
+const analyze = (sequence: string) => analyze_algorithm(parse_moves(sequence));
+const algorithm = (name: string) => analyze(find_algorithm(name)!.moves);
+
+describe("Algorithm analysis", () => {
+  test("should work out how many repeats bring the cube back", () => {
+    expect(analyze("R").order).toBe(4);
+    expect(analyze("U2").order).toBe(2);
+    expect(analyze("R U R' U'").order).toBe(6);
+    expect(analyze("R U").order).toBe(105);
+    expect(algorithm("T perm").order).toBe(2);
+    expect(algorithm("Sune").order).toBe(6);
+    expect(analyze("").order).toBe(1);
+  });
+
+  test("should describe the sticker cycles of a move", () => {
+    const analysis = analyze("R");
+    expect(analysis.cycleType).toEqual([{ length: 4, count: 5 }]);
+    expect(analysis.stickerCycles).toContainEqual(["R1", "R3", "R9", "R7"]);
+  });
+
+  test("should find the pieces an algorithm moves", () => {
+    const ua = algorithm("Ua perm");
+    expect(ua.edgeCycles).toHaveLength(1);
+    expect(ua.edgeCycles[0]).toMatchObject({ orientation: 0 });
+    expect([...ua.moved].sort()).toEqual(["UF", "UL", "UR"]);
+    expect(ua.cornerCycles).toEqual([]);
+    expect(ua.cycleType).toEqual([{ length: 3, count: 2 }]);
+  });
+
+  test("should find corners twisted and edges flipped in place", () => {
+    const twist = analyze("(R' D' R D)2 U (R' D' R D)4 U'");
+    expect(twist.moved).toEqual([]);
+    expect(twist.twisted).toHaveLength(2);
+    expect(twist.cornerCycles.map(({ orientation }) => orientation).sort()).toEqual([1, 2]);
+    expect(twist.order).toBe(3);
+
+    const flip = analyze("M' U M' U M' U M' U2 M' U M' U M' U M'");
+    expect(flip.flipped).toEqual(["UF", "UB"]);
+    expect(flip.moved).toEqual([]);
+  });
+
+  test("rotations should cycle the centers", () => {
+    const x = analyze("x");
+    expect(x.centerCycles).toEqual([{ positions: ["U", "B", "D", "F"], orientation: 0 }]);
+    expect(x.preservedLayers).toEqual([]);
+  });
+
+  test("should tell which layers an algorithm leaves alone", () => {
+    expect(algorithm("T perm").preservedLayers).toEqual(["D", "M", "E"]);
+    expect(analyze("R").preservedLayers).toEqual(["L", "M"]);
+    expect(preserves_layer(parse_moves("R U R' U'"), "D")).toBe(false);
+    expect(preserves_layer(parse_moves("F R U R' U' F'"), "D")).toBe(true);
+    expect(preserves_layer(parse_moves("F R U R' U' F'"), "E")).toBe(true);
+  });
+
+  test("the order should agree with the piece cycles", () => {
+    const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+    const random = seeded_random(16);
+    for (let i = 0; i < 20; i++) {
+      const analysis = analyze_algorithm(random_move_scramble(8, random));
+      const cycleOrder = (modulus: number) => (cycle: { positions: string[]; orientation: number }) =>
+        cycle.positions.length * (modulus / gcd(cycle.orientation, modulus));
+      const orders = [...analysis.cornerCycles.map(cycleOrder(3)), ...analysis.edgeCycles.map(cycleOrder(2))];
+      expect(orders.reduce((a, b) => (a * b) / gcd(a, b), 1)).toBe(analysis.order);
+    }
+  });
+
+  test("should reject moves a 3x3x3 does not have", () => {
+    expect(() => analyze_algorithm(["4R"])).toThrow();
+  });
+});
@@ -0,0 +1,135 @@
+// algorithmAnalysis.ts
+//
+// Facts about what a move sequence does to a 3x3x3, worked out instead of written down by hand: how many
+// times it has to be repeated to get back to where it started, which pieces it cycles, and which layers it
+// leaves alone. An algorithm that preserves the D and E layers, for example, can be used once the first two
+// layers are solved.
+
+import {
+  apply_moves_to_cubies,
+  center_faces,
+  corner_facelets,
+  corner_names,
+  edge_facelets,
+  edge_names,
+  solved_cubies,
+} from "./cubieCube";
+import { sequence_permutation } from "./nxnCube";
+import { S } from "./rubiksCube";
+import type { Face } from "./rubiksCube";
+import { permutation_to_cycles } from "./twistyPuzzle";
+
+// The face layers, and the slices between two faces
+export const layers = ["U", "R", "F", "D", "L", "B", "M", "E", "S"] as const;
+export type Layer = (typeof layers)[number];
+
+export type PieceCycle = {
+  // The piece in positions[0] moves to positions[1], and so on, and the last one back to positions[0]
+  positions: string[];
+  // How far a piece is twisted clockwise (corners, 0 to 2) or flipped (edges, 0 or 1) after going once around
+  orientation: number;
+};
+
+export type AlgorithmAnalysis = {
+  moves: string[];
+  // How many times the sequence has to be repeated to get back to the cube it started from
+  order: number;
+  // The stickers it cycles, named like S(): "F4" is the 4th sticker of F
+  stickerCycles: string[][];
+  // How many sticker cycles there are of each length, shortest first
+  cycleType: { length: number; count: number }[];
+  cornerCycles: PieceCycle[];
+  edgeCycles: PieceCycle[];
+  centerCycles: PieceCycle[];
+  // Pieces that end up in another position, and pieces that stay in place but are twisted or flipped
+  moved: string[];
+  twisted: string[];
+  flipped: string[];
+  // The layers whose pieces all end up where they started, the right way round
+  preservedLayers: Layer[];
+};
+
+const sticker_name = (i: number) => `${center_faces[Math.floor(i / 9)]}${(i % 9) + 1}`;
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+const lcm = (a: number, b: number) => (a / gcd(a, b)) * b;
+
+// The two faces on either side of each slice
+const slice_faces: Record<"M" | "E" | "S", [Face, Face]> = { M: ["L", "R"], E: ["U", "D"], S: ["F", "B"] };
+
+// Whether a piece, named by the faces it shows, sits in a layer. Corners show a face of every axis, so
+// they are never in a slice.
+function in_layer(piece: string, layer: Layer): boolean {
+  if (layer === "M" || layer === "E" || layer === "S") {
+    return slice_faces[layer].every((face) => !piece.includes(face));
+  }
+  return piece.includes(layer);
+}
+
+const pieces: { name: string; stickers: number[] }[] = [
+  ...corner_names.map((name, i) => ({ name, stickers: corner_facelets[i] })),
+  ...edge_names.map((name, i) => ({ name, stickers: edge_facelets[i] })),
+  ...center_faces.map((name) => ({ name, stickers: [S(name, 5)] })),
+];
+
+// Cycles of the positions in a cubie permutation, where permutation[i] is the piece that moved to position i
+function piece_cycles(
+  names: readonly string[],
+  permutation: readonly number[],
+  orientation: readonly number[],
+  modulus: number
+): PieceCycle[] {
+  const cycles = permutation_to_cycles(permutation).map((cycle) => ({
+    positions: cycle.map((i) => names[i]),
+    orientation: cycle.reduce((total, i) => total + orientation[i], 0) % modulus,
+  }));
+  // Pieces that stay in place but are twisted are cycles of their own
+  const turned = orientation.flatMap((o, i) =>
+    o !== 0 && permutation[i] === i ? [{ positions: [names[i]], orientation: o }] : []
+  );
+  return [...cycles, ...turned];
+}
+
+function fixes_layer(permutation: readonly number[], layer: Layer): boolean {
+  return pieces
+    .filter(({ name }) => in_layer(name, layer))
+    .every(({ stickers }) => stickers.every((i) => permutation[i] === i));
+}
+
+/**
+ * Whether every piece in a layer ends up where it started, the right way round.
+ * @throws Error if a move is not one a 3x3x3 has
+ */
+export function preserves_layer(moves: readonly string[], layer: Layer): boolean {
+  return fixes_layer(sequence_permutation(3, moves), layer);
+}
+
+/**
+ * Works out the order, cycles and affected pieces of a sequence on a 3x3x3.
+ * @throws Error if a move is not one a 3x3x3 has
+ */
+export function analyze_algorithm(moves: readonly string[]): AlgorithmAnalysis {
+  const permutation = sequence_permutation(3, moves);
+  const cubies = apply_moves_to_cubies(solved_cubies, moves);
+
+  const cycles = permutation_to_cycles(permutation);
+  const lengths = [...new Set(cycles.map((cycle) => cycle.length))].sort((a, b) => a - b);
+  const cornerCycles = piece_cycles(corner_names, cubies.cp, cubies.co, 3);
+  const edgeCycles = piece_cycles(edge_names, cubies.ep, cubies.eo, 2);
+  const centerCycles = piece_cycles(center_faces, cubies.centers, [0, 0, 0, 0, 0, 0], 1);
+
+  const all = [...cornerCycles, ...edgeCycles, ...centerCycles];
+  return {
+    moves: [...moves],
+    order: cycles.reduce((order, cycle) => lcm(order, cycle.length), 1),
+    stickerCycles: cycles.map((cycle) => cycle.map(sticker_name)),
+    cycleType: lengths.map((length) => ({ length, count: cycles.filter((cycle) => cycle.length === length).length })),
+    cornerCycles,
+    edgeCycles,
+    centerCycles,
+    moved: all.filter(({ positions }) => positions.length > 1).flatMap(({ positions }) => positions),
+    twisted: cornerCycles.filter(({ positions }) => positions.length === 1).map(({ positions }) => positions[0]),
+    flipped: edgeCycles.filter(({ positions }) => positions.length === 1).map(({ positions }) => positions[0]),
+    preservedLayers: layers.filter((layer) => fixes_layer(permutation, layer)),
+  };
+}
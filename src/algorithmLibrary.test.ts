@@ -0,0 +1,70 @@
+import {
+  algorithm_library,
+  describe_effect,
+  find_algorithm,
+  normalize_algorithm_name,
+  resolve_alias,
+} from "./algorithmLibrary";
+import { analyze_cfop } from "./cfopAnalysis";
+import { invert_moves } from "./moveAlgebra";
+import { parse_moves } from "./moveNotation";
+import { RubiksCube } from "./rubiksCube";
+
+describe("Algorithm library", () => {
+  test("every algorithm should have a name no other algorithm uses", () => {
+    const names = algorithm_library.flatMap(({ name, aliases }) => [name, ...aliases]).map(normalize_algorithm_name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  test("every OLL and PLL algorithm should solve the case it is named after", () => {
+    for (const { name, group, moves, description } of algorithm_library) {
+      if (group !== "OLL" && group !== "PLL") {
+        continue;
+      }
+      const analysis = analyze_cfop(new RubiksCube(invert_moves(parse_moves(moves)).join(" ")).getCurrentState());
+      const solved = group === "OLL" ? `Solves ${analysis.oll}` : `Solves the ${analysis.pll}`;
+      expect([name, solved]).toEqual([name, description]);
+    }
+  });
+
+  test("should find an algorithm however its name is written", () => {
+    for (const name of ["T perm", "t-perm", "TPerm", "t_perm"]) {
+      expect(find_algorithm(name)?.moves).toBe("R U R' U' R' F R2 U' R' U' R U R' F'");
+    }
+    expect(find_algorithm("sune")).toMatchObject({ name: "OLL 27", group: "OLL", description: "Solves OLL 27 (Sune)" });
+    expect(find_algorithm("sexy")).toMatchObject({ name: "Sexy move", effect: "Moves 4 corners and 3 edges" });
+    expect(find_algorithm("no such algorithm")).toBeNull();
+  });
+
+  test("should describe what an algorithm does to a solved cube", () => {
+    expect(describe_effect(parse_moves(find_algorithm("Ua perm")!.moves))).toBe("Moves 3 edges");
+    expect(describe_effect(parse_moves(find_algorithm("Niklas")!.moves))).toBe("Moves 3 corners");
+    expect(describe_effect(["R", "R'"])).toBe("Does nothing");
+    expect(describe_effect(["M2", "U", "M2", "U2", "M2", "U", "M2"])).toBe("Moves 4 edges");
+    expect(describe_effect(["x"])).toMatch(/^Turns the centers/);
+    expect(describe_effect(["4R"])).toBeNull();
+  });
+
+  test("user aliases should be found before built-in algorithms and resolved when defined", () => {
+    const aliases: Record<string, string> = {};
+    aliases["My trigger"] = resolve_alias("My trigger", "R U R'", aliases);
+    aliases["Favourite"] = resolve_alias("Favourite", "t perm", aliases);
+    aliases["Again"] = resolve_alias("Again", "my-trigger", aliases);
+
+    expect(aliases).toEqual({
+      "My trigger": "R U R'",
+      Favourite: "R U R' U' R' F R2 U' R' U' R U R' F'",
+      Again: "R U R'",
+    });
+    expect(find_algorithm("MY TRIGGER", aliases)).toMatchObject({
+      name: "My trigger",
+      group: "alias",
+      moves: "R U R'",
+    });
+
+    expect(() => resolve_alias("Sune", "R U R'", aliases)).toThrow("already the name of a built-in algorithm (OLL 27)");
+    expect(() => resolve_alias("Broken", "R Q", aliases)).toThrow(
+      "neither an algorithm name nor a valid move sequence"
+    );
+  });
+});
@@ -0,0 +1,225 @@
+// algorithmLibrary.ts
+//
+// A catalog of named algorithms, so a sequence like the T perm can be asked for by name instead of typed
+// out. Names are matched ignoring case, spaces, hyphens and underscores: "T perm", "t-perm" and "TPerm"
+// are the same algorithm. Users can add their own names as aliases, which are kept with the cube.
+
+import { oll_algorithms, pll_algorithms } from "./cfopAnalysis";
+import { apply_moves_to_cubies, solved_cubies } from "./cubieCube";
+import { parse_moves } from "./moveNotation";
+
+export type AlgorithmGroup = "OLL" | "PLL" | "F2L" | "trigger";
+
+export type NamedAlgorithm = {
+  name: string;
+  group: AlgorithmGroup;
+  moves: string;
+  // Other names the algorithm is known by
+  aliases: string[];
+  // What the algorithm is for, e.g. "Solves OLL 27 (Sune)"
+  description: string;
+};
+
+export type AlgorithmLookup = {
+  name: string;
+  // "alias" for a name the user defined
+  group: AlgorithmGroup | "alias";
+  moves: string;
+  description: string | null;
+  // What the moves do to a solved 3x3x3, or null if they are not 3x3x3 moves
+  effect: string | null;
+};
+
+// OLL cases that are the only one in their group go by the group's name
+const named_oll_groups = new Set(["Sune", "Antisune", "H", "Pi", "Headlights", "Chameleon", "Bowtie"]);
+
+export const algorithm_library: NamedAlgorithm[] = [
+  {
+    name: "Sexy move",
+    group: "trigger",
+    moves: "R U R' U'",
+    aliases: ["Sexy"],
+    description: "Part of many F2L and OLL algorithms; six in a row do nothing",
+  },
+  {
+    name: "Reverse sexy move",
+    group: "trigger",
+    moves: "U R U' R'",
+    aliases: ["Reverse sexy"],
+    description: "The inverse of the sexy move",
+  },
+  {
+    name: "Left sexy move",
+    group: "trigger",
+    moves: "L' U' L U",
+    aliases: ["Left sexy"],
+    description: "The sexy move mirrored for the left hand",
+  },
+  {
+    name: "Sledgehammer",
+    group: "trigger",
+    moves: "R' F R F'",
+    aliases: ["Sledge"],
+    description: "Part of many OLL algorithms",
+  },
+  {
+    name: "Hedgeslammer",
+    group: "trigger",
+    moves: "F R' F' R",
+    aliases: ["Hedge"],
+    description: "The inverse of the sledgehammer",
+  },
+  {
+    name: "Niklas",
+    group: "trigger",
+    moves: "R U' L' U R' U' L U",
+    aliases: [],
+    description: "Cycles three corners of the U layer",
+  },
+  {
+    name: "F2L 1",
+    group: "F2L",
+    moves: "U R U' R'",
+    aliases: [],
+    description: "Inserts a pair split on top, edge in the back, into the front-right slot",
+  },
+  {
+    name: "F2L 2",
+    group: "F2L",
+    moves: "U' F' U F",
+    aliases: [],
+    description: "Inserts a pair split on top, edge on the left, into the front-right slot",
+  },
+  {
+    name: "F2L 3",
+    group: "F2L",
+    moves: "F' U' F",
+    aliases: [],
+    description: "Inserts a connected pair with the edge on the left into the front-right slot",
+  },
+  {
+    name: "F2L 4",
+    group: "F2L",
+    moves: "R U R'",
+    aliases: [],
+    description: "Inserts a connected pair with the edge in the back into the front-right slot",
+  },
+  ...oll_algorithms.map(({ number, group, algorithm }) => ({
+    name: `OLL ${number}`,
+    group: "OLL" as const,
+    moves: algorithm,
+    aliases: named_oll_groups.has(group) ? [group] : [],
+    description: `Solves OLL ${number} (${group})`,
+  })),
+  ...pll_algorithms.map(({ name, algorithm }) => ({
+    name: `${name} perm`,
+    group: "PLL" as const,
+    moves: algorithm,
+    aliases: [],
+    description: `Solves the ${name} perm`,
+  })),
+];
+
+export function normalize_algorithm_name(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]/g, "");
+}
+
+function find_in_library(name: string): NamedAlgorithm | undefined {
+  const key = normalize_algorithm_name(name);
+  return algorithm_library.find((algorithm) =>
+    [algorithm.name, ...algorithm.aliases].some((n) => normalize_algorithm_name(n) === key)
+  );
+}
+
+function find_alias(name: string, aliases: Readonly<Record<string, string>>): string | undefined {
+  const key = normalize_algorithm_name(name);
+  return Object.keys(aliases).find((alias) => normalize_algorithm_name(alias) === key);
+}
+
+const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? "" : "s"}`;
+
+/**
+ * Describes what a sequence does to a solved 3x3x3, e.g. "Moves 3 edges". Returns null if the sequence
+ * has moves a 3x3x3 does not have.
+ */
+export function describe_effect(moves: readonly string[]): string | null {
+  let cubies;
+  try {
+    cubies = apply_moves_to_cubies(solved_cubies, moves);
+  } catch {
+    return null;
+  }
+
+  const parts: string[] = [];
+  const moved = (perm: number[]) => perm.filter((piece, i) => piece !== i).length;
+  const inPlace = (perm: number[], orientation: number[]) =>
+    orientation.filter((o, i) => o !== 0 && perm[i] === i).length;
+
+  if (moved(cubies.centers) > 0) {
+    parts.push("Turns the centers");
+  }
+  const pieces = [
+    ...(moved(cubies.cp) > 0 ? [count(moved(cubies.cp), "corner")] : []),
+    ...(moved(cubies.ep) > 0 ? [count(moved(cubies.ep), "edge")] : []),
+  ];
+  if (pieces.length > 0) {
+    parts.push(`Moves ${pieces.join(" and ")}`);
+  }
+  const twisted = inPlace(cubies.cp, cubies.co);
+  const flipped = inPlace(cubies.ep, cubies.eo);
+  if (twisted > 0) {
+    parts.push(`Twists ${count(twisted, "corner")} in place`);
+  }
+  if (flipped > 0) {
+    parts.push(`Flips ${count(flipped, "edge")} in place`);
+  }
+  return parts.length > 0 ? parts.join("; ") : "Does nothing";
+}
+
+/**
+ * Looks up an algorithm by name, checking the user's aliases first. Returns null if there is none.
+ */
+export function find_algorithm(name: string, aliases: Readonly<Record<string, string>> = {}): AlgorithmLookup | null {
+  const alias = find_alias(name, aliases);
+  if (alias !== undefined) {
+    const moves = aliases[alias];
+    return { name: alias, group: "alias", moves, description: null, effect: describe_effect(parse_moves(moves)) };
+  }
+
+  const algorithm = find_in_library(name);
+  if (!algorithm) {
+    return null;
+  }
+  return {
+    name: algorithm.name,
+    group: algorithm.group,
+    moves: algorithm.moves,
+    description: algorithm.description,
+    effect: describe_effect(parse_moves(algorithm.moves)),
+  };
+}
+
+/**
+ * Checks a new alias and works out the moves to store for it. The target can be moves, or the name of an
+ * algorithm or another alias, which is resolved now so later changes to the other alias do not affect it.
+ * @throws Error if the name is taken by a built-in algorithm or the target is neither a name nor valid moves
+ */
+export function resolve_alias(name: string, target: string, aliases: Readonly<Record<string, string>> = {}): string {
+  if (!normalize_algorithm_name(name)) {
+    throw new Error("An alias needs a name");
+  }
+  const builtIn = find_in_library(name);
+  if (builtIn) {
+    throw new Error(`"${name}" is already the name of a built-in algorithm (${builtIn.name})`);
+  }
+
+  const named = find_algorithm(target, aliases);
+  if (named) {
+    return named.moves;
+  }
+  try {
+    return parse_moves(target).join(" ");
+  } catch (e) {
+    throw new Error(`"${target}" is neither an algorithm name nor a valid move sequence (${(e as Error).message})`);
+  }
+}
@@ -0,0 +1,52 @@
+import { all_models, leaderboard, median_moves, parse_attempt_query, success_rate } from "./attemptStats";
+import type { ModelAttempts } from "./attemptStats";
+
+const model = (name: string, attempts: number, solvedMoves: number[]): ModelAttempts => ({
+  model: name,
+  attempts,
+  solved: solvedMoves.length,
+  solvedMoves,
+});
+
+describe("Attempt statistics", () => {
+  test("should count the share of attempts solved and their median moves", () => {
+    expect(success_rate(4, 3)).toEqual({ attempts: 4, solved: 3, rate: 0.75 });
+    expect(median_moves([8, 1, 3])).toBe(3);
+    expect(median_moves([3, 1])).toBe(2);
+    expect(success_rate(0, 0)).toEqual({ attempts: 0, solved: 0, rate: null });
+    expect(median_moves([])).toBeNull();
+    expect(all_models([model("a", 2, [8]), model("b", 2, [1, 3])])).toEqual({
+      attempts: 4,
+      solved: 3,
+      solvedMoves: [8, 1, 3],
+    });
+  });
+
+  test("should rank models by success rate, then by median moves", () => {
+    const board = leaderboard([
+      model("slow", 1, [9]),
+      model("fast", 1, [1]),
+      model("never", 1, []),
+      model("half", 2, [1]),
+    ]);
+    expect(board.map((entry) => entry.model)).toEqual(["fast", "slow", "half", "never"]);
+    expect(board[2]).toEqual({ model: "half", attempts: 2, solved: 1, rate: 0.5, medianMoves: 1 });
+    expect(board[3].medianMoves).toBeNull();
+  });
+
+  test("should read queries from URL parameters", () => {
+    const now = Date.UTC(2025, 2, 14);
+    expect(parse_attempt_query(new URLSearchParams("days=7&depth=1&model=m"), now)).toEqual({
+      since: Date.UTC(2025, 2, 7),
+      scrambleDepth: 1,
+      model: "m",
+    });
+    expect(parse_attempt_query(new URLSearchParams("since=2025-03-01&until=1741996800000&puzzle=skewb"))).toEqual({
+      since: Date.UTC(2025, 2, 1),
+      until: 1741996800000,
+      puzzle: "skewb",
+    });
+    expect(() => parse_attempt_query(new URLSearchParams("depth=deep"))).toThrow("depth must be a whole number");
+    expect(() => parse_attempt_query(new URLSearchParams("since=someday"))).toThrow("since must be a date");
+  });
+});
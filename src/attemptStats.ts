@@ -0,0 +1,149 @@
+// attemptStats.ts
+//
+// Statistics across every cube. Each cube reports its attempts to a single leaderboard when they finish,
+// either by being solved or by being given up when the cube is scrambled, reset or replaced. Only attempts
+// that started from a scramble are reported, since the depth of the scramble is what makes them comparable.
+// Attempts are grouped by the label of who made the moves, usually the model under test.
+
+export type AttemptReport = {
+  cubeId: string;
+  // When the attempt finished, in milliseconds since 1970
+  finishedAt: number;
+  // "3x3x3", "4x4x4", "pyraminx" and so on
+  puzzle: string;
+  scrambleType: string;
+  // The number of moves in the scramble
+  scrambleDepth: number;
+  // The moves made in the attempt, in HTM
+  moves: number;
+  solved: boolean;
+  model: string;
+};
+
+// Which attempts to count; every field left out matches every attempt
+export type AttemptQuery = {
+  // Milliseconds since 1970
+  since?: number;
+  until?: number;
+  scrambleDepth?: number;
+  puzzle?: string;
+  model?: string;
+};
+
+export type SuccessRate = {
+  attempts: number;
+  solved: number;
+  // From 0 to 1, or null without attempts
+  rate: number | null;
+};
+
+// The attempts of one model that match a query, as the leaderboard counts them
+export type ModelAttempts = {
+  model: string;
+  attempts: number;
+  solved: number;
+  // The moves made in each solved attempt, in HTM
+  solvedMoves: number[];
+};
+
+export type LeaderboardEntry = SuccessRate & {
+  model: string;
+  medianMoves: number | null;
+};
+
+// The label of attempts made without one
+export const unlabelled = "unlabelled";
+
+const day = 24 * 60 * 60 * 1000;
+
+export function success_rate(attempts: number, solved: number): SuccessRate {
+  return { attempts, solved, rate: attempts > 0 ? solved / attempts : null };
+}
+
+/**
+ * The median number of moves of the solved attempts, or null if none was solved.
+ */
+export function median_moves(solvedMoves: readonly number[]): number | null {
+  const moves = [...solvedMoves].sort((a, b) => a - b);
+  if (moves.length === 0) {
+    return null;
+  }
+  const middle = Math.floor(moves.length / 2);
+  return moves.length % 2 === 1 ? moves[middle] : (moves[middle - 1] + moves[middle]) / 2;
+}
+
+/**
+ * Ranks the models by the share of attempts they solved, then by the fewest median moves, then by the
+ * most attempts.
+ */
+export function leaderboard(models: readonly ModelAttempts[]): LeaderboardEntry[] {
+  const entries = models.map(({ model, attempts, solved, solvedMoves }) => ({
+    model,
+    ...success_rate(attempts, solved),
+    medianMoves: median_moves(solvedMoves),
+  }));
+  return entries.sort(
+    (a, b) =>
+      (b.rate ?? 0) - (a.rate ?? 0) ||
+      (a.medianMoves ?? Infinity) - (b.medianMoves ?? Infinity) ||
+      b.attempts - a.attempts ||
+      a.model.localeCompare(b.model)
+  );
+}
+
+/**
+ * The attempts of every model together.
+ */
+export function all_models(models: readonly ModelAttempts[]): Omit<ModelAttempts, "model"> {
+  return {
+    attempts: models.reduce((total, model) => total + model.attempts, 0),
+    solved: models.reduce((total, model) => total + model.solved, 0),
+    solvedMoves: models.flatMap((model) => model.solvedMoves),
+  };
+}
+
+function parse_time(name: string, value: string): number {
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`${name} must be a date or a time in milliseconds, but got ${value}`);
+  }
+  return time;
+}
+
+/**
+ * Reads a query from URL parameters: since and until as dates or milliseconds, or days for the last so
+ * many days; depth, puzzle and model.
+ * @throws Error naming the first parameter that cannot be read
+ */
+export function parse_attempt_query(params: URLSearchParams, now: number = Date.now()): AttemptQuery {
+  const query: AttemptQuery = {};
+  const days = params.get("days");
+  if (days !== null) {
+    if (!/^\d+(\.\d+)?$/.test(days)) {
+      throw new Error(`days must be a number, but got ${days}`);
+    }
+    query.since = now - Number(days) * day;
+  }
+  const since = params.get("since");
+  if (since !== null) {
+    query.since = parse_time("since", since);
+  }
+  const until = params.get("until");
+  if (until !== null) {
+    query.until = parse_time("until", until);
+  }
+  const depth = params.get("depth");
+  if (depth !== null) {
+    if (!/^\d+$/.test(depth)) {
+      throw new Error(`depth must be a whole number, but got ${depth}`);
+    }
+    query.scrambleDepth = Number(depth);
+  }
+  for (const key of ["puzzle", "model"] as const) {
+    const value = params.get(key);
+    if (value !== null) {
+      query[key] = value;
+    }
+  }
+  return query;
+}
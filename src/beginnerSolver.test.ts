@@ -0,0 +1,60 @@
+import { solve_beginner } from "./beginnerSolver";
+import { RubiksCube, S, apply_single_move_to_cube, solved_cube } from "./rubiksCube";
+import type { Cube } from "./rubiksCube";
+import { japanese_scheme, solved_cube_for } from "./colorScheme";
+
+function apply_stages(cube: Cube, stages: { moves: string[] }[]): Cube {
+  return stages.flatMap((stage) => stage.moves).reduce((c, move) => apply_single_move_to_cube(c, move), cube);
+}
+
+describe("Beginner solver", () => {
+  test("should solve scrambled cubes in the usual stages", () => {
+    for (let i = 0; i < 20; i++) {
+      const cube = new RubiksCube();
+      cube.scramble(25);
+      const stages = solve_beginner(cube.getCurrentState());
+      expect(stages.map((stage) => stage.name)).toEqual([
+        "White cross",
+        "First layer corners",
+        "Middle layer edges",
+        "Yellow cross",
+        "Orient last layer",
+        "Position last layer corners",
+        "Position last layer edges",
+      ]);
+      expect(apply_stages(cube.getCurrentState(), stages)).toEqual(solved_cube);
+    }
+  });
+
+  test("should need no moves for a solved cube", () => {
+    const stages = solve_beginner(solved_cube);
+    expect(stages.every((stage) => stage.moves.length === 0)).toBe(true);
+  });
+
+  test("should start by turning the cube upright when the centers have moved", () => {
+    const cube = new RubiksCube("x R U y'").getCurrentState();
+    const stages = solve_beginner(cube);
+    expect(stages[0].name).toBe("Hold the cube upright");
+    expect(stages[0].moves.length).toBeGreaterThan(0);
+    expect(apply_stages(cube, stages)).toEqual(solved_cube);
+  });
+
+  test("should explain each stage", () => {
+    const stages = solve_beginner(new RubiksCube("R U R' U'").getCurrentState());
+    stages.forEach((stage) => expect(stage.explanation.length).toBeGreaterThan(0));
+    expect(stages[1].explanation).toContain("R U R' U'");
+  });
+
+  test("should reject a cube that cannot be solved", () => {
+    const cube = new RubiksCube().getCurrentState();
+    [cube[S("U", 8)], cube[S("F", 2)]] = [cube[S("F", 2)], cube[S("U", 8)]];
+    expect(() => solve_beginner(cube)).toThrow("Invalid cube state");
+  });
+
+  test("should name colors after the scheme the cube is painted in", () => {
+    const cube = new RubiksCube("R U F", solved_cube_for(japanese_scheme)).getCurrentState();
+    const stages = solve_beginner(cube, japanese_scheme);
+    expect(stages.map((stage) => stage.name)).toContain("Blue cross");
+    expect(apply_stages(cube, stages)).toEqual(solved_cube_for(japanese_scheme));
+  });
+});
@@ -0,0 +1,230 @@
+// beginnerSolver.ts
+//
+// Solves the cube the way it is taught to beginners: one layer at a time from the bottom (D) up,
+// using a handful of memorable algorithms. Every step tries the algorithms it knows, preceded by
+// the turns that line pieces up, and keeps the first one that places the piece without disturbing
+// anything solved earlier.
+
+import { apply_moves_to_cube, find_upright_rotation } from "./rubiksCube";
+import type { Cube, Face } from "./rubiksCube";
+import { apply_moves_to_cubies, cube_to_cubies } from "./cubieCube";
+import type { CubieCube } from "./cubieCube";
+import { assert_valid_cube } from "./cubeValidation";
+import { simplify_moves } from "./moveAlgebra";
+import { color_names, default_color_scheme, recolor_cube } from "./colorScheme";
+import type { ColorScheme } from "./colorScheme";
+
+export type BeginnerStage = {
+  name: string;
+  explanation: string;
+  moves: string[];
+};
+
+const sides: Face[] = ["F", "R", "B", "L"];
+
+const u_turns = [[], ["U"], ["U2"], ["U'"]];
+
+// The bottom layer pieces of each side, in the order they are solved, as cubie indices
+const cross_edges = [5, 4, 7, 6]; // DF, DR, DB, DL
+const bottom_corners = [4, 7, 6, 5]; // DFR, DRB, DBL, DLF
+const middle_edges = [8, 11, 10, 9]; // FR, BR, BL, FL
+
+const sexy_move = ["R", "U", "R'", "U'"];
+const right_insert = ["U", "R", "U'", "R'", "U'", "F'", "U", "F"];
+const left_insert = ["U'", "L'", "U", "L", "U", "F", "U'", "F'"];
+const sune = ["R", "U", "R'", "U", "R", "U2", "R'"];
+const a_perm = ["R'", "F", "R'", "B2", "R", "F'", "R'", "B2", "R2"];
+const u_perm = ["R", "U'", "R", "U", "R", "U", "R", "U'", "R'", "U'", "R2"];
+const edge_flip = ["F", "R", "U", "R'", "U'", "F'"];
+
+// Rewrites an algorithm written for the front side so it works on another side,
+// as if the cube had been turned with y k times first
+function on_side(moves: string[], k: number): string[] {
+  return moves.map((move) => {
+    const i = sides.indexOf(move[0] as Face);
+    return i === -1 ? move : sides[(i + k) % 4] + move.slice(1);
+  });
+}
+
+function corner_solved(cubies: CubieCube, i: number) {
+  return cubies.cp[i] === i && cubies.co[i] === 0;
+}
+
+function edge_solved(cubies: CubieCube, i: number) {
+  return cubies.ep[i] === i && cubies.eo[i] === 0;
+}
+
+function all_solved(cubies: CubieCube, corners: number[], edges: number[]) {
+  return corners.every((i) => corner_solved(cubies, i)) && edges.every((i) => edge_solved(cubies, i));
+}
+
+// Tries every way to get a piece out of the wrong slot, line it up with U turns and insert it
+function place_piece(
+  cubies: CubieCube,
+  extracts: string[][],
+  inserts: string[][],
+  goal: (cubies: CubieCube) => boolean
+): string[] {
+  if (goal(cubies)) {
+    return [];
+  }
+  for (const extract of [[], ...extracts]) {
+    for (const turn of u_turns) {
+      for (const insert of inserts) {
+        const moves = [...extract, ...turn, ...insert];
+        if (goal(apply_moves_to_cubies(cubies, moves))) {
+          return moves;
+        }
+      }
+    }
+  }
+  throw new Error("No beginner algorithm places this piece");
+}
+
+// Searches for the shortest combination of U turns and one algorithm that reaches the goal
+function repeat_algorithm(
+  cubies: CubieCube,
+  algorithm: string[],
+  goal: (cubies: CubieCube) => boolean,
+  maxSteps: number
+): string[] {
+  const steps = [...u_turns.slice(1), algorithm];
+
+  function search(current: CubieCube, depth: number, lastWasTurn: boolean): string[] | null {
+    if (goal(current)) {
+      return [];
+    }
+    if (depth === 0) {
+      return null;
+    }
+    for (const step of steps) {
+      const isTurn = step !== algorithm;
+      if (isTurn && lastWasTurn) {
+        continue;
+      }
+      const rest = search(apply_moves_to_cubies(current, step), depth - 1, isTurn);
+      if (rest) {
+        return [...step, ...rest];
+      }
+    }
+    return null;
+  }
+
+  for (let depth = 0; depth <= maxSteps; depth++) {
+    const moves = search(cubies, depth, false);
+    if (moves) {
+      return moves;
+    }
+  }
+  throw new Error("No beginner algorithm solves this step");
+}
+
+/**
+ * Solves the cube layer by layer with the beginner method, returning the moves for each stage
+ * along with a short explanation of what the stage does and how.
+ * @param scheme - The color scheme the cube is painted in, which the explanations name colors by
+ * @throws InvalidCubeError if the cube cannot be solved at all
+ */
+export function solve_beginner(cube: Readonly<Cube>, scheme: ColorScheme = default_color_scheme): BeginnerStage[] {
+  // Solve in the default colors, which the piece tables are built from
+  const standard = recolor_cube(cube, scheme, default_color_scheme);
+  assert_valid_cube(standard);
+  const stages: BeginnerStage[] = [];
+
+  const rotation = find_upright_rotation(standard)!;
+  const upright = apply_moves_to_cube(standard, rotation);
+  const down = color_names[scheme.faces.D].toLowerCase();
+  const up = color_names[scheme.faces.U].toLowerCase();
+  if (rotation.length > 0) {
+    stages.push({
+      name: "Hold the cube upright",
+      explanation: `Turn the whole cube so the ${down} center is on the bottom and the centers are back where they started.`,
+      moves: rotation,
+    });
+  }
+
+  let cubies = cube_to_cubies(upright);
+  const stage = (name: string, explanation: string, moves: string[]) => {
+    cubies = apply_moves_to_cubies(cubies, moves);
+    stages.push({ name, explanation, moves: simplify_moves(moves) });
+  };
+
+  let moves: string[] = [];
+  cross_edges.forEach((_, k) => {
+    const goal = (c: CubieCube) => all_solved(c, [], cross_edges.slice(0, k + 1));
+    const extracts = sides.flatMap((x) => [[`${x}2`], [x, "U", `${x}'`], [`${x}'`, "U", x]]);
+    const inserts = [on_side(["F2"], k), on_side(["U'", "R'", "F", "R"], k)];
+    moves.push(...place_piece(apply_moves_to_cubies(cubies, moves), extracts, inserts, goal));
+  });
+  stage(
+    `${down[0].toUpperCase()}${down.slice(1)} cross`,
+    `Make a cross of ${down} edges on the bottom, each edge also matching the center of the side it touches. ` +
+      `Bring an edge to the top layer, turn U until it sits above its place, then turn it down with F2, ` +
+      `or with U' R' F R if its ${down} sticker faces you.`,
+    moves
+  );
+
+  moves = [];
+  bottom_corners.forEach((_, k) => {
+    const goal = (c: CubieCube) => all_solved(c, bottom_corners.slice(0, k + 1), cross_edges);
+    const extracts = sides.map((_, j) => on_side(["R", "U", "R'"], j));
+    const inserts = [1, 2, 3, 4, 5].map((n) => on_side(Array(n).fill(sexy_move).flat(), k));
+    moves.push(...place_piece(apply_moves_to_cubies(cubies, moves), extracts, inserts, goal));
+  });
+  stage(
+    "First layer corners",
+    `Fill in the ${down} corners to finish the bottom layer. Turn U until a corner sits above its place, ` +
+      `hold that place at the front right and repeat R U R' U' until the corner drops in the right way round. ` +
+      `A corner stuck in the wrong place on the bottom comes out with R U R'.`,
+    moves
+  );
+
+  moves = [];
+  middle_edges.forEach((_, k) => {
+    const goal = (c: CubieCube) => all_solved(c, bottom_corners, [...cross_edges, ...middle_edges.slice(0, k + 1)]);
+    const extracts = sides.map((_, j) => on_side(right_insert, j));
+    const inserts = [on_side(right_insert, k), on_side(left_insert, k + 1)];
+    moves.push(...place_piece(apply_moves_to_cubies(cubies, moves), extracts, inserts, goal));
+  });
+  stage(
+    "Middle layer edges",
+    `Find a top-layer edge without ${up} on it and turn U until its front color matches the front center. ` +
+      `Insert it to the right with U R U' R' U' F' U F or to the left with U' L' U L U F U' F'. ` +
+      `An edge stuck in the wrong middle slot comes out by inserting any other edge there.`,
+    moves
+  );
+
+  const firstTwoLayers = (c: CubieCube) => all_solved(c, bottom_corners, [...cross_edges, ...middle_edges]);
+  const topEdgesUp = (c: CubieCube) => firstTwoLayers(c) && [0, 1, 2, 3].every((i) => c.eo[i] === 0);
+  stage(
+    `${up[0].toUpperCase()}${up.slice(1)} cross`,
+    `Make a ${up} cross on top. Hold the ${up} dot, L-shape or line as shown by the turns below and apply ` +
+      `F R U R' U' F' until the cross appears.`,
+    repeat_algorithm(cubies, edge_flip, topEdgesUp, 6)
+  );
+
+  const topFaceUp = (c: CubieCube) => topEdgesUp(c) && [0, 1, 2, 3].every((i) => c.co[i] === 0);
+  stage(
+    "Orient last layer",
+    `Make the whole top face ${up} by turning U and repeating the Sune, R U R' U R U2 R'.`,
+    repeat_algorithm(cubies, sune, topFaceUp, 7)
+  );
+
+  const topCorners = (c: CubieCube) => topFaceUp(c) && [0, 1, 2, 3].every((i) => corner_solved(c, i));
+  stage(
+    "Position last layer corners",
+    `Put the top corners in their places. Turn U to line up a pair of matching corners at the back ` +
+      `and apply R' F R' B2 R F' R' B2 R2, repeating if needed.`,
+    repeat_algorithm(cubies, a_perm, topCorners, 5)
+  );
+
+  const solved = (c: CubieCube) => topCorners(c) && [0, 1, 2, 3].every((i) => edge_solved(c, i));
+  stage(
+    "Position last layer edges",
+    `Cycle the top edges into place with R U' R U R U R U' R' U' R2, keeping a solved edge at the back, ` +
+      `and finish with a U turn if needed.`,
+    repeat_algorithm(cubies, u_perm, solved, 6)
+  );
+
+  return stages;
+}
@@ -0,0 +1,64 @@
+import { RubiksCube, random_move_scramble, solved_cube } from "./rubiksCube";
+import { seeded_random } from "./random";
+import { random_cubies } from "./scramble";
+import { cubies_to_cube } from "./cubieCube";
+import { solve_cube } from "./twoPhaseSolver";
+import { default_color_scheme, solved_cube_for } from "./colorScheme";
+
+// Wall-clock budgets, so these run with npm run bench rather than with the tests. A solve is allowed far
+// longer than its budget, so a slow one fails here instead of being cut short by solve_cube.
+const sequence_budget_ms = 500;
+const solve_budget_ms = 2000;
+const solve_timeout_ms = 60000;
+// Random states are solved well inside this many positions; it does not depend on the machine
+const solve_node_budget = 1_000_000;
+
+function time(run: () => void): number {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+}
+
+describe("Benchmarks", () => {
+  test("late calls in a long session should be no slower than early ones", () => {
+    // Like the agent: every call restores the cube from its current state alone, applies a sequence and
+    // reads the state back to store it. The moves go to SQL, which is not measured here.
+    const random = seeded_random(1);
+    let currentState = solved_cube;
+    const call = () => {
+      const cube = RubiksCube.restore(currentState, [], currentState);
+      cube.applyMoveSequence(random_move_scramble(20, random).join(" "));
+      cube.isSolved();
+      currentState = cube.getCurrentState();
+    };
+    const calls = (count: number) => time(() => Array.from({ length: count }, call));
+
+    calls(1000);
+    const early = calls(1000);
+    calls(20000);
+    const late = calls(1000);
+    expect(late).toBeLessThan(2 * early);
+  });
+
+  test("a long sequence should be applied in one pass on the biggest cube", () => {
+    const cube = new RubiksCube(undefined, solved_cube_for(default_color_scheme, 7));
+    const sequence = random_move_scramble(10000, seeded_random(2), 7).join(" ");
+    // The first pass builds the move tables for the 7x7x7
+    cube.applyMoveSequence(sequence);
+    expect(time(() => cube.applyMoveSequence(sequence))).toBeLessThan(sequence_budget_ms);
+  });
+
+  test("the two-phase solver should solve random states inside a request", () => {
+    // The first solve builds the pruning tables, which a Worker does once per isolate
+    solve_cube(cubies_to_cube(random_cubies(seeded_random(3))));
+
+    const random = seeded_random(4);
+    for (let i = 0; i < 5; i++) {
+      const cube = cubies_to_cube(random_cubies(random));
+      let solution: string[] = [];
+      const options = { timeoutMs: solve_timeout_ms, maxNodes: solve_node_budget };
+      expect(time(() => (solution = solve_cube(cube, options)))).toBeLessThan(solve_budget_ms);
+      expect(new RubiksCube(solution.join(" "), cube).isSolved()).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { analyze_cfop, oll_algorithms, pll_algorithms } from "./cfopAnalysis";
+import { apply_moves_to_cubies, cube_to_cubies, cubies_to_cube, solved_cubies } from "./cubieCube";
+import { invert_moves } from "./moveAlgebra";
+import { RubiksCube, solved_cube } from "./rubiksCube";
+
+function case_cube(algorithm: string, setup: string[] = []) {
+  return cubies_to_cube(apply_moves_to_cubies(solved_cubies, [...setup, ...invert_moves(algorithm.split(" "))]));
+}
+
+describe("CFOP analysis", () => {
+  test("every algorithm should keep the first two layers and solve a different last-layer case", () => {
+    const first_two_layers = [4, 5, 6, 7].map((i) => [i, i + 4]);
+    for (const { algorithm } of [...oll_algorithms, ...pll_algorithms]) {
+      const cubies = cube_to_cubies(case_cube(algorithm));
+      first_two_layers.forEach(([corner, edge]) => {
+        expect([cubies.cp[corner], cubies.co[corner]]).toEqual([corner, 0]);
+        expect([cubies.ep[edge], cubies.eo[edge]]).toEqual([edge, 0]);
+      });
+      expect(cubies.ep.slice(4, 8)).toEqual([4, 5, 6, 7]);
+      expect(cubies.centers).toEqual(solved_cubies.centers);
+    }
+
+    const olls = oll_algorithms.map(({ algorithm }) => analyze_cfop(case_cube(algorithm)).oll);
+    expect(olls).toEqual(oll_algorithms.map(({ number, group }) => `OLL ${number} (${group})`));
+
+    const plls = pll_algorithms.map(({ algorithm }) => analyze_cfop(case_cube(algorithm)));
+    plls.forEach((analysis) => expect(analysis.oll).toBe("OLL skip"));
+    expect(plls.map((analysis) => analysis.pll)).toEqual(pll_algorithms.map(({ name }) => `${name} perm`));
+  });
+
+  test("should report a solved cube as solved", () => {
+    expect(analyze_cfop(solved_cube)).toEqual({
+      stage: "solved",
+      crossEdges: ["DF", "DR", "DB", "DL"],
+      f2lPairs: ["FR", "BR", "BL", "FL"],
+      oll: "OLL skip",
+      pll: "PLL skip",
+    });
+  });
+
+  test("should report which cross edges and F2L pairs are in place", () => {
+    const analysis = analyze_cfop(new RubiksCube("R U R' U'").getCurrentState());
+    expect(analysis.stage).toBe("f2l");
+    expect(analysis.crossEdges).toEqual(["DF", "DR", "DB", "DL"]);
+    expect(analysis.f2lPairs).toEqual(["BR", "BL", "FL"]);
+    expect(analysis.oll).toBeNull();
+
+    const scrambled = analyze_cfop(new RubiksCube("F R").getCurrentState());
+    expect(scrambled.stage).toBe("cross");
+    expect(scrambled.crossEdges).toEqual(["DB", "DL"]);
+  });
+
+  test("should name a last-layer case however the last layer is turned", () => {
+    const sune = oll_algorithms.find(({ number }) => number === 27)!.algorithm;
+    expect(analyze_cfop(case_cube(sune, ["U2"])).oll).toBe("OLL 27 (Sune)");
+
+    const t_perm = pll_algorithms.find(({ name }) => name === "T")!.algorithm;
+    const analysis = analyze_cfop(case_cube(t_perm, ["U"]));
+    expect(analysis.stage).toBe("pll");
+    expect(analysis.pll).toBe("T perm");
+  });
+
+  test("should leave a last U turn in the PLL stage", () => {
+    expect(analyze_cfop(new RubiksCube("U").getCurrentState())).toMatchObject({
+      stage: "pll",
+      oll: "OLL skip",
+      pll: "PLL skip",
+    });
+  });
+
+  test("should analyse a cube held in another orientation", () => {
+    expect(analyze_cfop(new RubiksCube("x y").getCurrentState()).stage).toBe("solved");
+  });
+});
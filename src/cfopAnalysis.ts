@@ -0,0 +1,221 @@
+// cfopAnalysis.ts
+//
+// Measures how far a cube has come along the CFOP method: the cross on D, the four first-two-layers (F2L)
+// pairs, orienting the last layer (OLL) and permuting it (PLL). Last-layer cases are recognised by
+// comparing against the cases the standard algorithms solve, so a case is named the same however the
+// last layer is turned.
+
+import { apply_moves_to_cube, find_upright_rotation } from "./rubiksCube";
+import type { Cube } from "./rubiksCube";
+import { apply_moves_to_cubies, cube_to_cubies, edge_names, multiply_cubies, solved_cubies } from "./cubieCube";
+import type { CubieCube, EdgeName } from "./cubieCube";
+import { assert_valid_cube } from "./cubeValidation";
+import { invert_moves } from "./moveAlgebra";
+
+export type CfopStage = "cross" | "f2l" | "oll" | "pll" | "solved";
+
+export type F2LSlot = "FR" | "BR" | "BL" | "FL";
+
+export type CfopAnalysis = {
+  // The first stage that is not finished yet
+  stage: CfopStage;
+  // Cross edges in place, and the F2L slots with both their corner and edge in place
+  crossEdges: EdgeName[];
+  f2lPairs: F2LSlot[];
+  // The last-layer case, e.g. "OLL 27 (Sune)" or "T perm", once the stages before it are finished.
+  // "OLL skip" and "PLL skip" mean the last layer needs no algorithm for that stage, at most a U turn.
+  oll: string | null;
+  pll: string | null;
+};
+
+const cross_edges: EdgeName[] = ["DF", "DR", "DB", "DL"];
+
+// Each slot's corner and edge, as cubie indices
+const f2l_slots: Record<F2LSlot, [number, number]> = {
+  FR: [4, 8],
+  BR: [7, 11],
+  BL: [6, 10],
+  FL: [5, 9],
+};
+
+// One algorithm for each OLL case, with the shape group it belongs to
+export const oll_algorithms: { number: number; group: string; algorithm: string }[] = [
+  { number: 1, group: "Dot", algorithm: "R U2 R2 F R F' U2 R' F R F'" },
+  { number: 2, group: "Dot", algorithm: "F R U R' U' F' f R U R' U' f'" },
+  { number: 3, group: "Dot", algorithm: "f R U R' U' f' U' F R U R' U' F'" },
+  { number: 4, group: "Dot", algorithm: "f R U R' U' f' U F R U R' U' F'" },
+  { number: 5, group: "Square", algorithm: "r' U2 R U R' U r" },
+  { number: 6, group: "Square", algorithm: "r U2 R' U' R U' r'" },
+  { number: 7, group: "Small lightning bolt", algorithm: "r U R' U R U2 r'" },
+  { number: 8, group: "Small lightning bolt", algorithm: "l' U' L U' L' U2 l" },
+  { number: 9, group: "Fish", algorithm: "R U R' U' R' F R2 U R' U' F'" },
+  { number: 10, group: "Fish", algorithm: "R U R' U R' F R F' R U2 R'" },
+  { number: 11, group: "Small lightning bolt", algorithm: "r U R' U R' F R F' R U2 r'" },
+  { number: 12, group: "Small lightning bolt", algorithm: "M' R' U' R U' R' U2 R U' R r'" },
+  { number: 13, group: "Knight move", algorithm: "F U R U' R2 F' R U R U' R'" },
+  { number: 14, group: "Knight move", algorithm: "R' F R U R' F' R F U' F'" },
+  { number: 15, group: "Knight move", algorithm: "r' U' r R' U' R U r' U r" },
+  { number: 16, group: "Knight move", algorithm: "r U r' R U R' U' r U' r'" },
+  { number: 17, group: "Dot", algorithm: "R U R' U R' F R F' U2 R' F R F'" },
+  { number: 18, group: "Dot", algorithm: "r U R' U R U2 r2 U' R U' R' U2 r" },
+  { number: 19, group: "Dot", algorithm: "M U R U R' U' M' R' F R F'" },
+  { number: 20, group: "Dot", algorithm: "r U R' U' M2 U R U' R' U' M'" },
+  { number: 21, group: "H", algorithm: "R U2 R' U' R U R' U' R U' R'" },
+  { number: 22, group: "Pi", algorithm: "R U2 R2 U' R2 U' R2 U2 R" },
+  { number: 23, group: "Headlights", algorithm: "R2 D' R U2 R' D R U2 R" },
+  { number: 24, group: "Chameleon", algorithm: "r U R' U' r' F R F'" },
+  { number: 25, group: "Bowtie", algorithm: "F' r U R' U' r' F R" },
+  { number: 26, group: "Antisune", algorithm: "R U2 R' U' R U' R'" },
+  { number: 27, group: "Sune", algorithm: "R U R' U R U2 R'" },
+  { number: 28, group: "Corners oriented", algorithm: "r U R' U' r' R U R U' R'" },
+  { number: 29, group: "Awkward", algorithm: "R U R' U' R U' R' F' U' F R U R'" },
+  { number: 30, group: "Awkward", algorithm: "F R' F R2 U' R' U' R U R' F2" },
+  { number: 31, group: "P shape", algorithm: "R' U' F U R U' R' F' R" },
+  { number: 32, group: "P shape", algorithm: "L U F' U' L' U L F L'" },
+  { number: 33, group: "T shape", algorithm: "R U R' U' R' F R F'" },
+  { number: 34, group: "C shape", algorithm: "R U R2 U' R' F R U R U' F'" },
+  { number: 35, group: "Fish", algorithm: "R U2 R2 F R F' R U2 R'" },
+  { number: 36, group: "W shape", algorithm: "L' U' L U' L' U L U L F' L' F" },
+  { number: 37, group: "Fish", algorithm: "F R' F' R U R U' R'" },
+  { number: 38, group: "W shape", algorithm: "R U R' U R U' R' U' R' F R F'" },
+  { number: 39, group: "Big lightning bolt", algorithm: "L F' L' U' L U F U' L'" },
+  { number: 40, group: "Big lightning bolt", algorithm: "R' F R U R' U' F' U R" },
+  { number: 41, group: "Awkward", algorithm: "R U R' U R U2 R' F R U R' U' F'" },
+  { number: 42, group: "Awkward", algorithm: "R' U' R U' R' U2 R F R U R' U' F'" },
+  { number: 43, group: "P shape", algorithm: "F' U' L' U L F" },
+  { number: 44, group: "P shape", algorithm: "F U R U' R' F'" },
+  { number: 45, group: "T shape", algorithm: "F R U R' U' F'" },
+  { number: 46, group: "C shape", algorithm: "R' U' R' F R F' U R" },
+  { number: 47, group: "Small L shape", algorithm: "F' L' U' L U L' U' L U F" },
+  { number: 48, group: "Small L shape", algorithm: "F R U R' U' R U R' U' F'" },
+  { number: 49, group: "Small L shape", algorithm: "r U' r2 U r2 U r2 U' r" },
+  { number: 50, group: "Small L shape", algorithm: "r' U r2 U' r2 U' r2 U r'" },
+  { number: 51, group: "I shape", algorithm: "F U R U' R' U R U' R' F'" },
+  { number: 52, group: "I shape", algorithm: "R U R' U R U' B U' B' R'" },
+  { number: 53, group: "Small L shape", algorithm: "l' U2 L U L' U' L U L' U l" },
+  { number: 54, group: "Small L shape", algorithm: "r U2 R' U' R U R' U' R U' r'" },
+  { number: 55, group: "I shape", algorithm: "R U2 R2 U' R U' R' U2 F R F'" },
+  { number: 56, group: "I shape", algorithm: "r' U' r U' R' U R U' R' U R r' U r" },
+  { number: 57, group: "Corners oriented", algorithm: "R U R' U' M' U R U' r'" },
+];
+
+// One algorithm for each PLL case
+export const pll_algorithms: { name: string; algorithm: string }[] = [
+  { name: "Aa", algorithm: "x R' U R' D2 R U' R' D2 R2 x'" },
+  { name: "Ab", algorithm: "x R2 D2 R U R' D2 R U' R x'" },
+  { name: "E", algorithm: "x' R U' R' D R U R' D' R U R' D R U' R' D' x" },
+  { name: "F", algorithm: "R' U' F' R U R' U' R' F R2 U' R' U' R U R' U R" },
+  { name: "Ga", algorithm: "R2 U R' U R' U' R U' R2 U' D R' U R D'" },
+  { name: "Gb", algorithm: "R' U' R U D' R2 U R' U R U' R U' R2 D" },
+  { name: "Gc", algorithm: "R2 U' R U' R U R' U R2 U D' R U' R' D" },
+  { name: "Gd", algorithm: "R U R' U' D R2 U' R U' R' U R' U R2 D'" },
+  { name: "H", algorithm: "M2 U M2 U2 M2 U M2" },
+  { name: "Ja", algorithm: "R' U L' U2 R U' R' U2 R L" },
+  { name: "Jb", algorithm: "R U R' F' R U R' U' R' F R2 U' R'" },
+  { name: "Na", algorithm: "R U R' U R U R' F' R U R' U' R' F R2 U' R' U2 R U' R'" },
+  { name: "Nb", algorithm: "R' U R U' R' F' U' F R U R' F R' F' R U' R" },
+  { name: "Ra", algorithm: "R U' R' U' R U R D R' U' R D' R' U2 R'" },
+  { name: "Rb", algorithm: "R2 F R U R U' R' F' R U2 R' U2 R" },
+  { name: "T", algorithm: "R U R' U' R' F R2 U' R' U' R U R' F'" },
+  { name: "Ua", algorithm: "R U' R U R U R U' R' U' R2" },
+  { name: "Ub", algorithm: "R2 U R U R' U' R' U' R' U R'" },
+  { name: "V", algorithm: "R U' R U R' D R D' R U' D R2 U R2 D' R2" },
+  { name: "Y", algorithm: "F R U' R' U' R U R' F' R U R' U' R' F R F'" },
+  { name: "Z", algorithm: "M2 U M2 U M' U2 M2 U2 M'" },
+];
+
+const u_turns = [[], ["U"], ["U2"], ["U'"]].map((moves) => apply_moves_to_cubies(solved_cubies, moves));
+
+// A key for the last layer that is the same however the layer is turned before and after:
+// the smallest of the keys of every U^a * cubies * U^b
+function last_layer_key(cubies: CubieCube, key: (cubies: CubieCube) => string): string {
+  const keys = u_turns.flatMap((before) =>
+    u_turns.map((after) => key(multiply_cubies(multiply_cubies(before, cubies), after)))
+  );
+  return keys.sort()[0];
+}
+
+function orientation_key(cubies: CubieCube): string {
+  return [...cubies.co.slice(0, 4), ...cubies.eo.slice(0, 4)].join("");
+}
+
+function permutation_key(cubies: CubieCube): string {
+  return [...cubies.cp.slice(0, 4), ...cubies.ep.slice(0, 4)].join("");
+}
+
+// The cubies of the case an algorithm solves
+function case_of(algorithm: string): CubieCube {
+  return apply_moves_to_cubies(solved_cubies, invert_moves(algorithm.split(" ")));
+}
+
+let cached_cases: { oll: Map<string, string>; pll: Map<string, string> } | null = null;
+
+function last_layer_cases() {
+  if (!cached_cases) {
+    cached_cases = {
+      oll: new Map(
+        oll_algorithms.map(({ number, group, algorithm }) => [
+          last_layer_key(case_of(algorithm), orientation_key),
+          `OLL ${number} (${group})`,
+        ])
+      ),
+      pll: new Map(
+        pll_algorithms.map(({ name, algorithm }) => [
+          last_layer_key(case_of(algorithm), permutation_key),
+          `${name} perm`,
+        ])
+      ),
+    };
+  }
+  return cached_cases;
+}
+
+/**
+ * Reports how far a cube has come along the CFOP method, solving with the cross on D.
+ * A cube held in any orientation is analysed as if it were turned upright first.
+ * @throws InvalidCubeError if the cube cannot be solved at all
+ */
+export function analyze_cfop(cube: Readonly<Cube>): CfopAnalysis {
+  assert_valid_cube(cube);
+  const rotation = find_upright_rotation(cube)!;
+  const cubies = cube_to_cubies(apply_moves_to_cube(cube, rotation));
+
+  const edgeSolved = (i: number) => cubies.ep[i] === i && cubies.eo[i] === 0;
+  const cornerSolved = (i: number) => cubies.cp[i] === i && cubies.co[i] === 0;
+
+  const crossEdges = cross_edges.filter((name) => edgeSolved(edge_names.indexOf(name)));
+  const f2lPairs = (Object.keys(f2l_slots) as F2LSlot[]).filter((slot) => {
+    const [corner, edge] = f2l_slots[slot];
+    return cornerSolved(corner) && edgeSolved(edge);
+  });
+
+  const analysis: CfopAnalysis = { stage: "cross", crossEdges, f2lPairs, oll: null, pll: null };
+  if (crossEdges.length < 4) {
+    return analysis;
+  }
+  analysis.stage = "f2l";
+  if (f2lPairs.length < 4) {
+    return analysis;
+  }
+
+  const { oll, pll } = last_layer_cases();
+  const orientationKey = last_layer_key(cubies, orientation_key);
+  if (orientationKey !== last_layer_key(solved_cubies, orientation_key)) {
+    analysis.stage = "oll";
+    analysis.oll = oll.get(orientationKey)!;
+    return analysis;
+  }
+  analysis.oll = "OLL skip";
+
+  const permutationKey = last_layer_key(cubies, permutation_key);
+  if (permutationKey !== last_layer_key(solved_cubies, permutation_key)) {
+    analysis.stage = "pll";
+    analysis.pll = pll.get(permutationKey)!;
+    return analysis;
+  }
+  analysis.pll = "PLL skip";
+
+  // Only a U turn can be left, and it still counts as part of PLL
+  analysis.stage = [0, 1, 2, 3].every((i) => cornerSolved(i) && edgeSolved(i)) ? "solved" : "pll";
+  return analysis;
+}
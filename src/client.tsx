@@ -6,18 +6,13 @@ import { OrbitControls } from "@react-three/drei";
 import { Color as ThreeColor, Euler, Vector3, Group } from "three";
 import * as THREE from "three";
 import type { RubiksCubeState } from "./server";
-import { solved_cube, type Cube, type Color, S } from "./rubiksCube";
+import { solved_cube, type Cube, type Color } from "./rubiksCube";
+import { cube_size, sticker_index } from "./nxnCube";
+import { color_hex } from "./colorScheme";
 import "./styles.css";
 
 // Define color map with explicit type
-let colorMap: Record<string, string> = {
-  W: "#FFFFFF", // White
-  Y: "#FFFF00", // Yellow
-  B: "#0000FF", // Blue
-  G: "#00FF00", // Green
-  R: "#FF0000", // Red
-  O: "#FFA500", // Orange
-};
+let colorMap: Record<string, string> = color_hex;
 
 // Function to safely get color from the map
 function getColor(colorCode: string): string {
@@ -29,9 +24,11 @@ interface CubieProps {
   position: [number, number, number];
   colors: Record<string, string>;
   size?: number;
+  // How far the outer layers are from the center of the cube
+  outer?: number;
 }
 
-function Cubie({ position, colors, size = 0.85 }: CubieProps) {
+function Cubie({ position, colors, size = 0.85, outer = 1 }: CubieProps) {
   let [x, y, z] = position;
 
   // Default color for empty stickers - use a dark gray instead of black
@@ -40,13 +37,13 @@ function Cubie({ position, colors, size = 0.85 }: CubieProps) {
   return (
     <group position={[x, y, z]}>
       {/* Right/Left face */}
-      {x === 1 && (
+      {x === outer && (
         <mesh position={[size / 2 + 0.001, 0, 0]} rotation={[0, Math.PI / 2, 0]}>
           <planeGeometry args={[size * 0.95, size * 0.95]} />
           <meshPhongMaterial color={colors.right || defaultColor} shininess={50} side={THREE.DoubleSide} />
         </mesh>
       )}
-      {x === -1 && (
+      {x === -outer && (
         <mesh position={[-size / 2 - 0.001, 0, 0]} rotation={[0, -Math.PI / 2, 0]}>
           <planeGeometry args={[size * 0.95, size * 0.95]} />
           <meshPhongMaterial color={colors.left || defaultColor} shininess={50} side={THREE.DoubleSide} />
@@ -54,13 +51,13 @@ function Cubie({ position, colors, size = 0.85 }: CubieProps) {
       )}
 
       {/* Up/Down face - increased offset to ensure visibility */}
-      {y === 1 && (
+      {y === outer && (
         <mesh position={[0, size / 2 + 0.002, 0]} rotation={[Math.PI / 2, 0, 0]}>
           <planeGeometry args={[size * 0.95, size * 0.95]} />
           <meshPhongMaterial color={colors.up || defaultColor} shininess={50} side={THREE.DoubleSide} />
         </mesh>
       )}
-      {y === -1 && (
+      {y === -outer && (
         <mesh position={[0, -size / 2 - 0.002, 0]} rotation={[-Math.PI / 2, 0, 0]}>
           <planeGeometry args={[size * 0.95, size * 0.95]} />
           <meshPhongMaterial color={colors.down || defaultColor} shininess={50} side={THREE.DoubleSide} />
@@ -68,13 +65,13 @@ function Cubie({ position, colors, size = 0.85 }: CubieProps) {
       )}
 
       {/* Front/Back face */}
-      {z === 1 && (
+      {z === outer && (
         <mesh position={[0, 0, size / 2 + 0.001]}>
           <planeGeometry args={[size * 0.95, size * 0.95]} />
           <meshPhongMaterial color={colors.front || defaultColor} shininess={50} side={THREE.DoubleSide} />
         </mesh>
       )}
-      {z === -1 && (
+      {z === -outer && (
         <mesh position={[0, 0, -size / 2 - 0.001]} rotation={[0, Math.PI, 0]}>
           <planeGeometry args={[size * 0.95, size * 0.95]} />
           <meshPhongMaterial color={colors.back || defaultColor} shininess={50} side={THREE.DoubleSide} />
@@ -103,12 +100,14 @@ function RubiksCube3D({ state }: { state: Cube }) {
     }
   });
 
-  // Generate all 27 cubie positions
-  for (let x = -1; x <= 1; x++) {
-    for (let y = -1; y <= 1; y++) {
-      for (let z = -1; z <= 1; z++) {
-        // Skip the internal cube (not visible)
-        if (x === 0 && y === 0 && z === 0) continue;
+  // Generate the positions of all the cubies on the outside, counted from 0 to size - 1 along each axis
+  let size = cube_size(state);
+  let last = size - 1;
+  for (let x = 0; x <= last; x++) {
+    for (let y = 0; y <= last; y++) {
+      for (let z = 0; z <= last; z++) {
+        // Skip the internal cubies (not visible)
+        if ([x, y, z].every((p) => p > 0 && p < last)) continue;
         positions.push([x, y, z] as [number, number, number]);
       }
     }
@@ -119,72 +118,45 @@ function RubiksCube3D({ state }: { state: Cube }) {
       ref={groupRef}
       // Standard orientation: white on bottom, yellow on top, blue facing user
       rotation={[Math.PI / 8, Math.PI / 8, 0]}
+      // Bigger cubes are drawn with smaller cubies, so every cube takes the same space
+      scale={3 / size}
     >
       {positions.map((position, index) => {
         let [x, y, z] = position;
         let colors: Record<string, string> = {};
 
         // Top face (yellow) - U
-        if (y === 1) {
-          let row = 1 + z;
-          let col = 1 + x;
-          if (row >= 0 && row < 3 && col >= 0 && col < 3) {
-            // Calculate 1-based index for S function
-            colors.up = getColor(state[S("U", row * 3 + col + 1)]);
-          }
+        if (y === last) {
+          colors.up = getColor(state[sticker_index(size, "U", z, x)]);
         }
 
         // Bottom face (white) - D
-        if (y === -1) {
-          let row = 1 - z;
-          let col = 1 + x;
-          if (row >= 0 && row < 3 && col >= 0 && col < 3) {
-            // Calculate 1-based index for S function
-            colors.down = getColor(state[S("D", row * 3 + col + 1)]);
-          }
+        if (y === 0) {
+          colors.down = getColor(state[sticker_index(size, "D", last - z, x)]);
         }
 
         // Front face (blue) - F
-        if (z === 1) {
-          let row = 1 - y;
-          let col = 1 + x;
-          if (row >= 0 && row < 3 && col >= 0 && col < 3) {
-            // Calculate 1-based index for S function
-            colors.front = getColor(state[S("F", row * 3 + col + 1)]);
-          }
+        if (z === last) {
+          colors.front = getColor(state[sticker_index(size, "F", last - y, x)]);
         }
 
         // Back face (green) - B
-        if (z === -1) {
-          let row = 1 - y;
-          let col = 1 - x;
-          if (row >= 0 && row < 3 && col >= 0 && col < 3) {
-            // Calculate 1-based index for S function
-            colors.back = getColor(state[S("B", row * 3 + col + 1)]);
-          }
+        if (z === 0) {
+          colors.back = getColor(state[sticker_index(size, "B", last - y, last - x)]);
         }
 
         // Left face (orange) - L
-        if (x === -1) {
-          let row = 1 - y;
-          let col = 1 + z;
-          if (row >= 0 && row < 3 && col >= 0 && col < 3) {
-            // Calculate 1-based index for S function
-            colors.left = getColor(state[S("L", row * 3 + col + 1)]);
-          }
+        if (x === 0) {
+          colors.left = getColor(state[sticker_index(size, "L", last - y, z)]);
         }
 
         // Right face (red) - R
-        if (x === 1) {
-          let row = 1 - y;
-          let col = 1 - z;
-          if (row >= 0 && row < 3 && col >= 0 && col < 3) {
-            // Calculate 1-based index for S function
-            colors.right = getColor(state[S("R", row * 3 + col + 1)]);
-          }
+        if (x === last) {
+          colors.right = getColor(state[sticker_index(size, "R", last - y, last - z)]);
         }
 
-        return <Cubie key={index} position={position} colors={colors} />;
+        let centered = position.map((p) => p - last / 2) as [number, number, number];
+        return <Cubie key={index} position={centered} colors={colors} outer={last / 2} />;
       })}
     </group>
   );
@@ -196,7 +168,7 @@ function Scene({ state }: { state: RubiksCubeState }) {
     <>
       <color attach="background" args={["#222"]} />
       <ambientLight intensity={2.5} />
-      <RubiksCube3D state={state.stateHistory[state.stateHistory.length - 1]} />
+      <RubiksCube3D state={state.currentState} />
       <OrbitControls
         enableZoom={true}
         enablePan={false}
@@ -219,9 +191,10 @@ function App() {
   }
 
   let [state, setState] = useState<RubiksCubeState>({
-    moveHistory: [],
+    moveCount: 0,
+    recentMoves: [],
     isSolved: true,
-    stateHistory: [solved_cube],
+    currentState: solved_cube,
   });
 
   // State to handle ready status
@@ -266,7 +239,15 @@ function App() {
         <div className="cube-and-moves">
           <div className="cube-view">
             <div className="canvas-container" style={{ width: "100%", height: "100%" }}>
-              {isReady && (
+              {/* The 3D view only knows cubes; other puzzles are shown flat, as drawn by the server */}
+              {isReady && state.puzzle && (
+                <img
+                  src={`/svg/${id}?state=${state.currentState.join("")}`}
+                  alt={`${state.puzzle} state`}
+                  style={{ width: "100%", height: "100%", objectFit: "contain" }}
+                />
+              )}
+              {isReady && !state.puzzle && (
                 <Canvas
                   camera={{
                     position: [5, 3, 7],
@@ -293,11 +274,12 @@ function App() {
 
           <div className="moves-history">
             <h3>Move History</h3>
-            {state.moveHistory.length > 0 ? (
+            {state.moveCount > 0 ? (
               <div className="moves-list">
-                {state.moveHistory.map((move, index) => (
+                {/* Only the last moves are sent with the state */}
+                {state.recentMoves.map((move, index) => (
                   <div className="move-item" key={index}>
-                    {index + 1}. {move}
+                    {state.moveCount - state.recentMoves.length + index + 1}. {move}
                   </div>
                 ))}
               </div>
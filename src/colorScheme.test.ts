@@ -0,0 +1,62 @@
+import {
+  describe_color_scheme,
+  find_color_scheme,
+  japanese_scheme,
+  make_color_scheme,
+  recolor_cube,
+  solved_cube_for,
+  western_scheme,
+} from "./colorScheme";
+import { RubiksCube, S, solved_cube } from "./rubiksCube";
+import type { Color, Face } from "./rubiksCube";
+
+describe("Color schemes", () => {
+  test("the solved cube should be painted in the Western scheme", () => {
+    expect(solved_cube_for(western_scheme)).toEqual(solved_cube);
+    expect(solved_cube[S("U", 5)]).toBe("Y");
+    expect(solved_cube[S("F", 5)]).toBe("B");
+    expect(solved_cube[S("R", 5)]).toBe("R");
+  });
+
+  test("the Japanese scheme should put blue opposite white", () => {
+    expect([japanese_scheme.faces.U, japanese_scheme.faces.D]).toEqual(["B", "W"]);
+    expect([japanese_scheme.faces.F, japanese_scheme.faces.B]).toEqual(["Y", "G"]);
+  });
+
+  test("recoloring should keep every piece in place", () => {
+    const cube = new RubiksCube("R U F' L2").getCurrentState();
+    const japanese = recolor_cube(cube, western_scheme, japanese_scheme);
+    expect(japanese).toEqual(new RubiksCube("R U F' L2", solved_cube_for(japanese_scheme)).getCurrentState());
+    expect(recolor_cube(japanese, japanese_scheme, western_scheme)).toEqual(cube);
+  });
+
+  test("a custom scheme should need six different colors", () => {
+    const scheme = make_color_scheme({ U: "W", D: "Y", F: "G", B: "B", R: "R", L: "O" });
+    expect(scheme.name).toBe("Custom");
+    expect(solved_cube_for(scheme)[S("F", 1)]).toBe("G");
+
+    expect(() => make_color_scheme({ U: "W", D: "W", F: "G", B: "B", R: "R", L: "O" })).toThrow("six different colors");
+  });
+
+  test("names every object has should not be taken for colors or schemes", () => {
+    const faces = { U: "toString", R: "valueOf", F: "constructor", D: "W", L: "O", B: "G" };
+    expect(() => make_color_scheme(faces as Record<Face, Color>)).toThrow(
+      "Unknown colors in color scheme: toString, valueOf, constructor"
+    );
+    expect(find_color_scheme("japanese")).toBe(japanese_scheme);
+    expect(find_color_scheme("toString")).toBeNull();
+  });
+
+  test("the description should list the color of every face", () => {
+    expect(describe_color_scheme(western_scheme)).toBe(
+      [
+        "- U (Up/Top): Yellow (Y)",
+        "- F (Front): Blue (B)",
+        "- R (Right): Red (R)",
+        "- B (Back): Green (G)",
+        "- L (Left): Orange (O)",
+        "- D (Down/Bottom): White (W)",
+      ].join("\n")
+    );
+  });
+});
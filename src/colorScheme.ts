@@ -0,0 +1,111 @@
+// colorScheme.ts
+//
+// Which color each face of a solved cube shows. Everything that needs to know the colors (the solved cube,
+// the prompt, the text and SVG renderers) reads them from here, so they cannot disagree.
+
+import type { Color, Cube, Face } from "./rubiksCube";
+
+export type ColorScheme = {
+  name: string;
+  faces: Record<Face, Color>;
+};
+
+// Yellow on top, white on the bottom, blue in front
+export const western_scheme: ColorScheme = {
+  name: "Western",
+  faces: { U: "Y", R: "R", F: "B", D: "W", L: "O", B: "G" },
+};
+
+// The Western scheme with blue and yellow swapped, so blue is opposite white
+export const japanese_scheme: ColorScheme = {
+  name: "Japanese",
+  faces: { U: "B", R: "R", F: "Y", D: "W", L: "O", B: "G" },
+};
+
+export const color_schemes = {
+  western: western_scheme,
+  japanese: japanese_scheme,
+};
+
+export type ColorSchemeName = keyof typeof color_schemes;
+
+/**
+ * The scheme with that name, or null. Names every object has, like "toString", are not schemes.
+ */
+export function find_color_scheme(name: string): ColorScheme | null {
+  return Object.prototype.hasOwnProperty.call(color_schemes, name) ? color_schemes[name as ColorSchemeName] : null;
+}
+
+export const default_color_scheme = western_scheme;
+
+export const color_names: Record<Color, string> = {
+  W: "White",
+  Y: "Yellow",
+  B: "Blue",
+  G: "Green",
+  R: "Red",
+  O: "Orange",
+};
+
+const known_colors: ReadonlySet<string> = new Set(Object.keys(color_names));
+
+// How each color is drawn
+export const color_hex: Record<Color, string> = {
+  W: "#FFFFFF",
+  Y: "#FFFF00",
+  B: "#0000FF",
+  G: "#00FF00",
+  R: "#FF0000",
+  O: "#FFA500",
+};
+
+const face_order: Face[] = ["U", "R", "F", "D", "L", "B"];
+
+const face_names: Record<Face, string> = {
+  U: "Up/Top",
+  R: "Right",
+  F: "Front",
+  D: "Down/Bottom",
+  L: "Left",
+  B: "Back",
+};
+
+/**
+ * Makes a custom color scheme.
+ * @throws Error if the faces do not use six different colors
+ */
+export function make_color_scheme(faces: Record<Face, Color>, name: string = "Custom"): ColorScheme {
+  const colors = face_order.map((face) => faces[face]);
+  const unknown = colors.filter((color) => !known_colors.has(color));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown colors in color scheme: ${unknown.join(", ")}`);
+  }
+  if (new Set(colors).size !== 6) {
+    throw new Error(`A color scheme needs six different colors, but got ${colors.join(" ")}`);
+  }
+  return { name, faces: { ...faces } };
+}
+
+export function solved_cube_for(scheme: ColorScheme, size: number = 3): Cube {
+  return face_order.flatMap((face) => Array(size * size).fill(scheme.faces[face]));
+}
+
+/**
+ * Repaints a cube from one color scheme to another, sticker by sticker, keeping every piece where it is.
+ */
+export function recolor_cube(cube: Readonly<Cube>, from: ColorScheme, to: ColorScheme): Cube {
+  const faceOf = new Map(face_order.map((face) => [from.faces[face], face]));
+  return cube.map((color) => {
+    const face = faceOf.get(color);
+    return face ? to.faces[face] : color;
+  });
+}
+
+/**
+ * Lists the color of each face, one per line, e.g. "- U (Up/Top): Yellow (Y)".
+ */
+export function describe_color_scheme(scheme: ColorScheme): string {
+  return (["U", "F", "R", "B", "L", "D"] as Face[])
+    .map((face) => `- ${face} (${face_names[face]}): ${color_names[scheme.faces[face]]} (${scheme.faces[face]})`)
+    .join("\n");
+}
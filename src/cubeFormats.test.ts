@@ -0,0 +1,74 @@
+import {
+  cube_to_facelets,
+  cube_to_json,
+  cube_to_singmaster,
+  export_cube_state,
+  facelets_to_cube,
+  import_cube_state,
+  json_to_cube,
+  singmaster_to_cube,
+} from "./cubeFormats";
+import { default_color_scheme, japanese_scheme, recolor_cube, solved_cube_for } from "./colorScheme";
+import { RubiksCube, random_move_scramble, solved_cube } from "./rubiksCube";
+import { seeded_random } from "./random";
+
+const solved_facelets = "UUUUUUUUURRRRRRRRRFFFFFFFFFDDDDDDDDDLLLLLLLLLBBBBBBBBB";
+const solved_singmaster = "UF UR UB UL DF DR DB DL FR FL BR BL UFR URB UBL ULF DRF DFL DLB DBR";
+
+describe("Cube formats", () => {
+  test("a solved cube should be written as the other tools write it", () => {
+    expect(cube_to_facelets(solved_cube)).toBe(solved_facelets);
+    expect(cube_to_singmaster(solved_cube)).toBe(solved_singmaster);
+    expect(facelets_to_cube(solved_facelets)).toEqual(solved_cube);
+    expect(singmaster_to_cube(solved_singmaster)).toEqual(solved_cube);
+  });
+
+  test("should match Kociemba's facelet string for a single move", () => {
+    // The facelet string of the cube after R, as printed by Kociemba's own tools
+    expect(cube_to_facelets(new RubiksCube("R").getCurrentState())).toBe(
+      "UUFUUFUUFRRRRRRRRRFFDFFDFFDDDBDDBDDBLLLLLLLLLUBBUBBUBB"
+    );
+  });
+
+  test("should write a flipped edge and a twisted corner in Singmaster notation", () => {
+    const flipped = singmaster_to_cube("FU RU UB UL DF DR DB DL FR FL BR BL UFR URB UBL ULF DRF DFL DLB DBR");
+    expect(cube_to_singmaster(flipped)).toBe("FU RU UB UL DF DR DB DL FR FL BR BL UFR URB UBL ULF DRF DFL DLB DBR");
+    expect(cube_to_singmaster(new RubiksCube("U").getCurrentState())).toBe(
+      "UR UB UL UF DF DR DB DL FR FL BR BL URB UBL ULF UFR DRF DFL DLB DBR"
+    );
+  });
+
+  test("every format should read back what it wrote", () => {
+    const random = seeded_random(17);
+    for (let i = 0; i < 10; i++) {
+      const cube = new RubiksCube(random_move_scramble(25, random).join(" ")).getCurrentState();
+      for (const format of ["facelets", "singmaster", "json"] as const) {
+        expect(import_cube_state(export_cube_state(cube, format, default_color_scheme), default_color_scheme)).toEqual(
+          cube
+        );
+      }
+    }
+    const big = new RubiksCube(random_move_scramble(40, random, 5).join(" "), solved_cube_for(default_color_scheme, 5));
+    expect(facelets_to_cube(cube_to_facelets(big.getCurrentState()))).toEqual(big.getCurrentState());
+    expect(json_to_cube(cube_to_json(big.getCurrentState()))).toEqual(big.getCurrentState());
+  });
+
+  test("faces should be written the same whatever the color scheme", () => {
+    const cube = new RubiksCube("R U F").getCurrentState();
+    const japanese = recolor_cube(cube, default_color_scheme, japanese_scheme);
+    expect(cube_to_facelets(japanese, japanese_scheme)).toBe(cube_to_facelets(cube));
+    expect(json_to_cube(cube_to_json(japanese, japanese_scheme))).toEqual(cube);
+  });
+
+  test("should reject text that is not a cube", () => {
+    expect(() => facelets_to_cube("UUUX")).toThrow("only the letters U, R, F, D, L and B, but got X");
+    expect(() => facelets_to_cube("UUU")).toThrow("No cube has 3 stickers");
+    expect(() => singmaster_to_cube("UF UR")).toThrow("lists 20 pieces");
+    expect(() => singmaster_to_cube(solved_singmaster.replace("UF", "UD"))).toThrow("UD is not an edge");
+    expect(() => cube_to_singmaster(new RubiksCube("x").getCurrentState())).toThrow("no centers");
+    expect(() => cube_to_singmaster(solved_cube_for(default_color_scheme, 4))).toThrow("only for the 3x3x3");
+    expect(() => json_to_cube({ ...cube_to_json(solved_cube), size: 9 })).toThrow("size must be a whole number");
+    expect(() => json_to_cube({ ...cube_to_json(solved_cube), version: 2 })).toThrow("Unknown cube state version");
+    expect(() => import_cube_state("{ nope", default_color_scheme)).toThrow("not valid JSON");
+  });
+});
@@ -0,0 +1,236 @@
+// cubeFormats.ts
+//
+// Reading and writing cube states in the formats other tools use, so states can be pasted in and saved:
+// - The facelet string of Kociemba's solver: one letter per sticker naming the face whose color it shows,
+//   in URFDLB order, e.g. "UUUUUUUUURRRRRRRRRFFFFFFFFFDDDDDDDDDLLLLLLLLLBBBBBBBBB" for a solved 3x3x3.
+//   Stickers are numbered as in S(), and cubes of other sizes are written the same way.
+// - Singmaster piece notation as used by Reid's solver: the piece in each of the 20 positions of a 3x3x3,
+//   "UF UR UB UL DF DR DB DL FR FL BR BL UFR URB UBL ULF DRF DFL DLB DBR" when solved.
+// - A JSON document with the colors of every face, described by cube_state_schema.
+// The first two name faces rather than colors, so they are read and written in a color scheme.
+
+import { default_color_scheme, make_color_scheme, recolor_cube } from "./colorScheme";
+import type { ColorScheme } from "./colorScheme";
+import { corner_facelets, edge_facelets } from "./cubieCube";
+import { cube_size, max_cube_size, min_cube_size } from "./nxnCube";
+import type { Color, Cube, Face } from "./rubiksCube";
+
+export const cube_formats = ["facelets", "singmaster", "json"] as const;
+export type CubeFormat = (typeof cube_formats)[number];
+
+export type CubeStateJson = {
+  version: 1;
+  size: number;
+  // The color of each face of the solved cube the state was painted in
+  colorScheme: Record<Face, Color>;
+  // The stickers of each face, row by row, drawn as in S()
+  faces: Record<Face, Color[]>;
+};
+
+const faces: Face[] = ["U", "R", "F", "D", "L", "B"];
+const colors: Color[] = ["W", "Y", "B", "G", "R", "O"];
+
+export const cube_state_schema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  title: "Rubik's cube state",
+  description: "The stickers of an NxNxN cube. Each face has size * size stickers, row by row.",
+  type: "object",
+  required: ["version", "size", "colorScheme", "faces"],
+  additionalProperties: false,
+  properties: {
+    version: { const: 1 },
+    size: { type: "integer", minimum: min_cube_size, maximum: max_cube_size },
+    colorScheme: {
+      type: "object",
+      required: faces,
+      additionalProperties: false,
+      properties: Object.fromEntries(faces.map((face) => [face, { enum: colors }])),
+    },
+    faces: {
+      type: "object",
+      required: faces,
+      additionalProperties: false,
+      properties: Object.fromEntries(
+        faces.map((face) => [
+          face,
+          {
+            type: "array",
+            items: { enum: colors },
+            minItems: min_cube_size * min_cube_size,
+            maxItems: max_cube_size * max_cube_size,
+          },
+        ])
+      ),
+    },
+  },
+};
+
+// The face each color belongs to in a scheme
+function face_of_color(scheme: ColorScheme, color: Color): Face {
+  const face = faces.find((face) => scheme.faces[face] === color);
+  if (!face) {
+    throw new Error(`The ${scheme.name} color scheme has no ${color} face`);
+  }
+  return face;
+}
+
+export function cube_to_facelets(cube: Readonly<Cube>, scheme: ColorScheme = default_color_scheme): string {
+  cube_size(cube);
+  return cube.map((color) => face_of_color(scheme, color)).join("");
+}
+
+/**
+ * @throws Error if the string is not one face letter for every sticker of a cube
+ */
+export function facelets_to_cube(facelets: string, scheme: ColorScheme = default_color_scheme): Cube {
+  const letters = facelets.replace(/\s/g, "");
+  const invalid = [...new Set(letters.replace(/[URFDLB]/g, ""))];
+  if (invalid.length > 0) {
+    throw new Error(`A facelet string has only the letters U, R, F, D, L and B, but got ${invalid.join(", ")}`);
+  }
+  const cube = [...letters].map((face) => scheme.faces[face as Face]);
+  cube_size(cube);
+  return cube;
+}
+
+// The positions in the order Singmaster notation lists them, with their faces in the order they are written
+const singmaster_positions = "UF UR UB UL DF DR DB DL FR FL BR BL UFR URB UBL ULF DRF DFL DLB DBR".split(" ");
+
+// The sticker on each face of each position, keyed by the position's faces in any order and the face
+const facelet_index = new Map<string, number>();
+const position_key = (position: string) => [...position].sort().join("");
+for (const facelets of [...corner_facelets, ...edge_facelets]) {
+  const position = facelets.map((i) => faces[Math.floor(i / 9)]).join("");
+  facelets.forEach((i) => facelet_index.set(`${position_key(position)}:${faces[Math.floor(i / 9)]}`, i));
+}
+
+const sticker_at = (position: string, face: string) => facelet_index.get(`${position_key(position)}:${face}`)!;
+
+const center_facelets = faces.map((_, i) => i * 9 + 4);
+
+/**
+ * Writes a 3x3x3 in Singmaster notation. The notation has no centers, so they have to be in place.
+ * @throws Error if the cube is not a 3x3x3 with U on top and F in front
+ */
+export function cube_to_singmaster(cube: Readonly<Cube>, scheme: ColorScheme = default_color_scheme): string {
+  if (cube_size(cube) !== 3) {
+    throw new Error("Singmaster notation is only for the 3x3x3 cube");
+  }
+  if (center_facelets.some((i, f) => cube[i] !== scheme.faces[faces[f]])) {
+    throw new Error("Singmaster notation has no centers, so the cube has to be held with U on top and F in front");
+  }
+  return singmaster_positions
+    .map((position) => [...position].map((face) => face_of_color(scheme, cube[sticker_at(position, face)])).join(""))
+    .join(" ");
+}
+
+/**
+ * Reads a 3x3x3 from Singmaster notation, with the centers in place. The pieces are not checked against
+ * each other: use assert_valid_cube for that.
+ * @throws Error if there are not 20 pieces, or a piece is not one a 3x3x3 has
+ */
+export function singmaster_to_cube(text: string, scheme: ColorScheme = default_color_scheme): Cube {
+  const pieces = text.trim().toUpperCase().split(/\s+/);
+  if (pieces.length !== singmaster_positions.length) {
+    throw new Error(`Singmaster notation lists 20 pieces, 12 edges then 8 corners, but got ${pieces.length}`);
+  }
+
+  const cube: Color[] = faces.flatMap((face) => Array(9).fill(scheme.faces[face]));
+  pieces.forEach((piece, i) => {
+    const position = singmaster_positions[i];
+    if (piece.length !== position.length || !facelet_index.has(`${position_key(piece)}:${piece[0]}`)) {
+      throw new Error(`${piece} is not ${position.length === 2 ? "an edge" : "a corner"} (in position ${position})`);
+    }
+    [...position].forEach((face, k) => (cube[sticker_at(position, face)] = scheme.faces[piece[k] as Face]));
+  });
+  return cube;
+}
+
+export function cube_to_json(cube: Readonly<Cube>, scheme: ColorScheme = default_color_scheme): CubeStateJson {
+  const size = cube_size(cube);
+  const area = size * size;
+  return {
+    version: 1,
+    size,
+    colorScheme: { ...scheme.faces },
+    faces: Object.fromEntries(faces.map((face, f) => [face, cube.slice(f * area, (f + 1) * area)])) as Record<
+      Face,
+      Color[]
+    >,
+  };
+}
+
+/**
+ * Reads a cube from a document matching cube_state_schema, repainted in the given color scheme.
+ * @throws Error naming the first part of the document that does not match the schema
+ */
+export function json_to_cube(json: unknown, scheme: ColorScheme = default_color_scheme): Cube {
+  const document = json as Partial<CubeStateJson> | null;
+  if (typeof document !== "object" || document === null) {
+    throw new Error("A cube state is a JSON object");
+  }
+  if (document.version !== 1) {
+    throw new Error(`Unknown cube state version: ${document.version}`);
+  }
+  const size = document.size;
+  if (!Number.isInteger(size) || size! < min_cube_size || size! > max_cube_size) {
+    throw new Error(`size must be a whole number from ${min_cube_size} to ${max_cube_size}, but got ${size}`);
+  }
+  if (typeof document.colorScheme !== "object" || typeof document.faces !== "object") {
+    throw new Error("A cube state needs colorScheme and faces");
+  }
+  const from = make_color_scheme(document.colorScheme, "Imported");
+
+  const cube = faces.flatMap((face) => {
+    const stickers = document.faces![face];
+    if (!Array.isArray(stickers) || stickers.length !== size! * size!) {
+      throw new Error(`faces.${face} must list ${size! * size!} stickers`);
+    }
+    const unknown = stickers.filter((color) => !colors.includes(color));
+    if (unknown.length > 0) {
+      throw new Error(`faces.${face} has unknown colors: ${unknown.join(", ")}`);
+    }
+    return stickers;
+  });
+  return recolor_cube(cube, from, scheme);
+}
+
+/**
+ * Writes a cube in one of the formats. JSON is written with two-space indentation.
+ * @throws Error if the cube cannot be written in that format, e.g. a 4x4x4 in Singmaster notation
+ */
+export function export_cube_state(cube: Readonly<Cube>, format: CubeFormat, scheme: ColorScheme): string {
+  switch (format) {
+    case "facelets":
+      return cube_to_facelets(cube, scheme);
+    case "singmaster":
+      return cube_to_singmaster(cube, scheme);
+    case "json":
+      return JSON.stringify(cube_to_json(cube, scheme), null, 2);
+  }
+}
+
+/**
+ * Reads a cube in one of the formats, painted in the given color scheme. Without a format, it is worked
+ * out from the text: JSON starts with "{", Singmaster notation has spaces and a facelet string has none.
+ * @throws Error if the text is not a cube in that format
+ */
+export function import_cube_state(text: string, scheme: ColorScheme, format?: CubeFormat): Cube {
+  const trimmed = text.trim();
+  format ??= trimmed.startsWith("{") ? "json" : /\s/.test(trimmed) ? "singmaster" : "facelets";
+  switch (format) {
+    case "facelets":
+      return facelets_to_cube(trimmed, scheme);
+    case "singmaster":
+      return singmaster_to_cube(trimmed, scheme);
+    case "json": {
+      let json;
+      try {
+        json = JSON.parse(trimmed);
+      } catch (e) {
+        throw new Error(`The cube state is not valid JSON: ${(e as Error).message}`);
+      }
+      return json_to_cube(json, scheme);
+    }
+  }
+}
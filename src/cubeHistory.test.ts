@@ -0,0 +1,29 @@
+import { make_history } from "./cubeHistory";
+import { apply_moves_to_cube, solved_cube } from "./rubiksCube";
+
+describe("Cube history", () => {
+  test("a state after every move should make a step of every move", () => {
+    const afterR = apply_moves_to_cube(solved_cube, ["R"]);
+    const afterRU = apply_moves_to_cube(afterR, ["U"]);
+    expect(make_history(["R", "U"], [solved_cube, afterR, afterRU])).toEqual({
+      moveHistory: ["R", "U"],
+      stateHistory: [solved_cube, afterR, afterRU],
+      stepLengths: [1, 1],
+    });
+  });
+
+  test("states that cannot be matched to the moves should make a single step", () => {
+    const current = apply_moves_to_cube(solved_cube, ["R", "U"]);
+    expect(make_history(["R", "U"], [solved_cube, current]).stepLengths).toEqual([2]);
+    expect(make_history([], [solved_cube, solved_cube]).stateHistory).toEqual([solved_cube]);
+    // As many states as moves, but a call that applied no moves added one of them
+    const misaligned = make_history(["R", "U"], [solved_cube, solved_cube, current]);
+    expect(misaligned.stateHistory).toEqual([solved_cube, current]);
+    expect(misaligned.stepLengths).toEqual([2]);
+    // States after every sequence
+    const afterF = apply_moves_to_cube(current, ["F"]);
+    const sequences = make_history(["R", "U", "F"], [solved_cube, current, afterF]);
+    expect(sequences.stateHistory).toEqual([solved_cube, afterF]);
+    expect(sequences.stepLengths).toEqual([3]);
+  });
+});
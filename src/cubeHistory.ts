@@ -0,0 +1,44 @@
+// cubeHistory.ts
+//
+// A cube's history as it was kept in the agent's state, before the moves and states moved to SQL tables:
+// the moves made, and the starting state followed by the state after each call that applied moves. Calls
+// that applied no moves still added a state, so the states cannot be matched to the moves by counting.
+// Cubes saved that way are read with make_history when they are moved to the tables.
+
+import { apply_moves_to_cube } from "./rubiksCube";
+import type { Cube } from "./rubiksCube";
+
+export type CubeHistory = {
+  // Every move made since the start, in order
+  moveHistory: string[];
+  // The starting state, then the state after each step
+  stateHistory: Cube[];
+  // The number of moves each step made, one for each state after the first
+  stepLengths: number[];
+};
+
+/**
+ * Splits a saved history into steps. If every state is the one before it turned by the next move, each
+ * move is a step of its own; otherwise the history is kept as a single step from the starting state to
+ * the current one.
+ */
+export function make_history(moveHistory: string[], stateHistory: Cube[]): CubeHistory {
+  const start = stateHistory[0];
+  if (moveHistory.length === 0) {
+    return { moveHistory, stateHistory: [start], stepLengths: [] };
+  }
+  const aligned =
+    stateHistory.length - 1 === moveHistory.length &&
+    moveHistory.every((move, i) => {
+      const turned = apply_moves_to_cube(stateHistory[i], [move]);
+      return turned.every((sticker, j) => sticker === stateHistory[i + 1][j]);
+    });
+  if (aligned) {
+    return { moveHistory, stateHistory, stepLengths: moveHistory.map(() => 1) };
+  }
+  return {
+    moveHistory,
+    stateHistory: [start, stateHistory[stateHistory.length - 1]],
+    stepLengths: [moveHistory.length],
+  };
+}
@@ -0,0 +1,92 @@
+import { InvalidCubeError, assert_valid_cube, validate_cube } from "./cubeValidation";
+import { RubiksCube, S, solved_cube } from "./rubiksCube";
+import type { Cube } from "./rubiksCube";
+
+function swap(cube: Cube, a: number, b: number): Cube {
+  const swapped = [...cube];
+  [swapped[a], swapped[b]] = [swapped[b], swapped[a]];
+  return swapped;
+}
+
+describe("validate_cube", () => {
+  test("should accept the solved cube", () => {
+    expect(validate_cube(solved_cube)).toEqual({ valid: true, errors: [] });
+  });
+
+  test("should accept any state reached by turning the cube", () => {
+    ["R U R' U'", "F2 B' L D2 R' U F", "M2 E S' x y2 z'", "r U2 3Rw' f b' Dw", "x", "z y"].forEach((sequence) => {
+      expect(validate_cube(new RubiksCube(sequence).getCurrentState())).toEqual({ valid: true, errors: [] });
+    });
+  });
+
+  test("should reject the wrong number of stickers", () => {
+    expect(validate_cube(solved_cube.slice(1)).errors).toEqual(["Expected 54 stickers but found 53"]);
+  });
+
+  test("should reject unknown colors", () => {
+    const cube = [...solved_cube] as string[];
+    cube[S("F", 3)] = "P";
+    expect(validate_cube(cube as Cube).errors).toEqual(['Sticker F3 has unknown color "P"']);
+  });
+
+  test("should report wrong sticker counts and the pieces they break", () => {
+    const cube = [...solved_cube];
+    cube[S("U", 8)] = "W";
+    const { valid, errors } = validate_cube(cube);
+    expect(valid).toBe(false);
+    expect(errors).toContain("Color W appears on 10 stickers, expected 9");
+    expect(errors).toContain("Color Y appears on 8 stickers, expected 9");
+    expect(errors).toContain("Edge DF (W B) appears 2 times");
+    expect(errors).toContain("Edge UF (Y B) is missing");
+  });
+
+  test("should report a combination of colors that is not a piece", () => {
+    const cube = swap(solved_cube, S("U", 9), S("D", 3));
+    const { errors } = validate_cube(cube);
+    expect(errors).toContain("Corner at URF has colors W R B, which no corner has");
+    expect(errors).toContain("Corner at DFR has colors Y B R, which no corner has");
+  });
+
+  test("should reject centers that are not arranged like a real cube", () => {
+    const cube = swap(solved_cube, S("U", 5), S("F", 5));
+    expect(validate_cube(cube).errors).toEqual([
+      "Centers B R Y W O G are not arranged like the centers of any solved cube",
+    ]);
+  });
+
+  test("should detect a single twisted corner", () => {
+    // Rotate the stickers of the URF corner in place
+    const cube = [...solved_cube];
+    [cube[S("U", 9)], cube[S("R", 1)], cube[S("F", 3)]] = [cube[S("F", 3)], cube[S("U", 9)], cube[S("R", 1)]];
+    const { valid, errors } = validate_cube(cube);
+    expect(valid).toBe(false);
+    expect(errors).toEqual(["Corner twist does not add up: one corner is twisted clockwise"]);
+  });
+
+  test("should detect a single flipped edge", () => {
+    const cube = swap(solved_cube, S("U", 8), S("F", 2));
+    expect(validate_cube(cube).errors).toEqual(["Edge flip does not add up: one edge is flipped"]);
+  });
+
+  test("should detect two swapped pieces", () => {
+    // Swap the UF and UR edges without touching anything else
+    let cube = swap(solved_cube, S("U", 8), S("U", 6));
+    cube = swap(cube, S("F", 2), S("R", 2));
+    expect(validate_cube(cube).errors).toEqual(["Permutation parity does not match: two pieces are swapped"]);
+  });
+
+  test("should validate a physically possible state in any orientation", () => {
+    const cube = swap(solved_cube, S("U", 8), S("F", 2));
+    const rotated = new RubiksCube("x y", cube).getCurrentState();
+    expect(validate_cube(rotated).errors).toEqual(["Edge flip does not add up: one edge is flipped"]);
+  });
+});
+
+describe("assert_valid_cube", () => {
+  test("should throw with every reason for an invalid cube", () => {
+    const cube = swap(solved_cube, S("U", 8), S("F", 2));
+    expect(() => assert_valid_cube(cube)).toThrow(InvalidCubeError);
+    expect(() => assert_valid_cube(cube)).toThrow("Invalid cube state: Edge flip does not add up: one edge is flipped");
+    expect(() => assert_valid_cube(solved_cube)).not.toThrow();
+  });
+});
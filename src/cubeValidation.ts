@@ -0,0 +1,167 @@
+// cubeValidation.ts
+
+import { S, apply_moves_to_cube, find_upright_rotation, solved_cube } from "./rubiksCube";
+import type { Color, Cube, Face } from "./rubiksCube";
+import { corner_facelets, corner_names, edge_facelets, edge_names, read_corner, read_edge } from "./cubieCube";
+
+export type CubeValidation = {
+  valid: boolean;
+  // One human-readable reason per problem found, empty when the cube is valid
+  errors: string[];
+};
+
+export class InvalidCubeError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid cube state: ${errors.join("; ")}`);
+    this.name = "InvalidCubeError";
+    this.errors = errors;
+  }
+}
+
+const colors: Color[] = ["W", "Y", "B", "G", "R", "O"];
+
+function sticker_name(i: number): string {
+  return `${"URFDLB"[Math.floor(i / 9)]}${(i % 9) + 1}`;
+}
+
+// Even permutations return 0, odd ones 1
+export function parity(perm: number[]): number {
+  let inversions = 0;
+  for (let i = 0; i < perm.length; i++) {
+    for (let j = i + 1; j < perm.length; j++) {
+      if (perm[i] > perm[j]) {
+        inversions++;
+      }
+    }
+  }
+  return inversions % 2;
+}
+
+function check_pieces(
+  kind: string,
+  names: readonly string[],
+  facelets: number[][],
+  found: (number | null)[],
+  cube: Readonly<Cube>
+): string[] {
+  const errors: string[] = [];
+
+  found.forEach((piece, i) => {
+    if (piece === null) {
+      const shown = facelets[i].map((f) => cube[f]).join(" ");
+      errors.push(`${kind} at ${names[i]} has colors ${shown}, which no ${kind.toLowerCase()} has`);
+    }
+  });
+
+  names.forEach((name, piece) => {
+    const count = found.filter((p) => p === piece).length;
+    const pieceColors = facelets[piece].map((f) => solved_cube[f]).join(" ");
+    if (count === 0) {
+      errors.push(`${kind} ${name} (${pieceColors}) is missing`);
+    } else if (count > 1) {
+      errors.push(`${kind} ${name} (${pieceColors}) appears ${count} times`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Checks that a sticker cube could be reached from the solved cube by turning it.
+ * A cube held in any orientation is accepted; piece positions in the errors are given
+ * with the cube turned so that its centers are in their solved positions.
+ */
+export function validate_cube(cube: Readonly<Cube>): CubeValidation {
+  const errors: string[] = [];
+  const invalid = () => ({ valid: false, errors });
+
+  if (cube.length !== solved_cube.length) {
+    errors.push(`Expected ${solved_cube.length} stickers but found ${cube.length}`);
+    return invalid();
+  }
+
+  cube.forEach((sticker, i) => {
+    if (!colors.includes(sticker)) {
+      errors.push(`Sticker ${sticker_name(i)} has unknown color "${sticker}"`);
+    }
+  });
+  if (errors.length > 0) {
+    return invalid();
+  }
+
+  colors.forEach((color) => {
+    const count = cube.filter((sticker) => sticker === color).length;
+    if (count !== 9) {
+      errors.push(`Color ${color} appears on ${count} stickers, expected 9`);
+    }
+  });
+
+  // Centers never move relative to each other, so some rotation must put them all back in place
+  const rotation = find_upright_rotation(cube);
+  if (!rotation) {
+    const centers = (["U", "R", "F", "D", "L", "B"] as Face[]).map((face) => cube[S(face, 5)]);
+    errors.push(`Centers ${centers.join(" ")} are not arranged like the centers of any solved cube`);
+    return invalid();
+  }
+  const upright = apply_moves_to_cube(cube, rotation);
+
+  const corners = corner_facelets.map((facelets) => read_corner(facelets.map((f) => upright[f])));
+  const edges = edge_facelets.map((facelets) => read_edge(facelets.map((f) => upright[f])));
+  errors.push(
+    ...check_pieces(
+      "Corner",
+      corner_names,
+      corner_facelets,
+      corners.map((corner) => corner?.piece ?? null),
+      upright
+    ),
+    ...check_pieces(
+      "Edge",
+      edge_names,
+      edge_facelets,
+      edges.map((edge) => edge?.piece ?? null),
+      upright
+    )
+  );
+  if (errors.length > 0) {
+    return invalid();
+  }
+
+  // Every piece is present exactly once, so the orientation and permutation rules can be checked
+  const readCorners = corners.flatMap((corner) => (corner ? [corner] : []));
+  const readEdges = edges.flatMap((edge) => (edge ? [edge] : []));
+  if (readCorners.length !== corners.length || readEdges.length !== edges.length) {
+    return invalid();
+  }
+  const twist = readCorners.reduce((sum, corner) => sum + corner.twist, 0) % 3;
+  if (twist !== 0) {
+    errors.push(
+      `Corner twist does not add up: one corner is twisted ${twist === 1 ? "clockwise" : "counter-clockwise"}`
+    );
+  }
+
+  const flip = readEdges.reduce((sum, edge) => sum + edge.flip, 0) % 2;
+  if (flip !== 0) {
+    errors.push("Edge flip does not add up: one edge is flipped");
+  }
+
+  const cornerParity = parity(readCorners.map((corner) => corner.piece));
+  const edgeParity = parity(readEdges.map((edge) => edge.piece));
+  if (cornerParity !== edgeParity) {
+    errors.push("Permutation parity does not match: two pieces are swapped");
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * @throws InvalidCubeError listing every reason the cube cannot be reached from the solved cube
+ */
+export function assert_valid_cube(cube: Readonly<Cube>): void {
+  const { valid, errors } = validate_cube(cube);
+  if (!valid) {
+    throw new InvalidCubeError(errors);
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  apply_move_to_cubies,
+  apply_moves_to_cubies,
+  corner_at,
+  cube_to_cubies,
+  cubies_to_cube,
+  edge_at,
+  multiply_cubies,
+  solved_cubies,
+} from "./cubieCube";
+import { RubiksCube, S, solved_cube } from "./rubiksCube";
+
+describe("CubieCube", () => {
+  test("the solved sticker cube should read as the solved cubie cube", () => {
+    expect(cube_to_cubies(solved_cube)).toEqual(solved_cubies);
+    expect(cubies_to_cube(solved_cubies)).toEqual(solved_cube);
+  });
+
+  test("an R move should match the standard cubie definition", () => {
+    const cubies = apply_move_to_cubies(solved_cubies, "R");
+    expect(cubies.cp).toEqual([4, 1, 2, 0, 7, 5, 6, 3]);
+    expect(cubies.co).toEqual([2, 0, 0, 1, 1, 0, 0, 2]);
+    expect(cubies.ep).toEqual([8, 1, 2, 3, 11, 5, 6, 7, 4, 9, 10, 0]);
+    expect(cubies.eo).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+
+    expect(corner_at(cubies, "URF")).toEqual({ piece: "DFR", twist: 2 });
+    expect(edge_at(cubies, "UR")).toEqual({ piece: "FR", flipped: false });
+  });
+
+  test("an F move should flip the edges it moves", () => {
+    const cubies = apply_move_to_cubies(solved_cubies, "F");
+    expect(edge_at(cubies, "UF")).toEqual({ piece: "FL", flipped: true });
+    expect(edge_at(cubies, "FR")).toEqual({ piece: "UF", flipped: true });
+    expect(edge_at(cubies, "UR")).toEqual({ piece: "UR", flipped: false });
+  });
+
+  test("converting to cubies and back should be lossless", () => {
+    const sequences = ["R U R' U'", "F2 B' L D2 R' U F", "M2 E S' x y2 z'", "r U2 3Rw' f b' Dw", "R U R' U R U2 R'"];
+    sequences.forEach((sequence) => {
+      const cube = new RubiksCube(sequence).getCurrentState();
+      expect(cubies_to_cube(cube_to_cubies(cube))).toEqual(cube);
+    });
+  });
+
+  test("applying moves to cubies should match applying them to stickers", () => {
+    const sequences = ["R U R' U'", "F2 B' L D2 R' U F", "M2 E S' x y2 z'", "r U2 3Rw' f b' Dw"];
+    sequences.forEach((sequence) => {
+      const moves = sequence.split(" ");
+      const cubies = apply_moves_to_cubies(solved_cubies, moves);
+      expect(cubies_to_cube(cubies)).toEqual(new RubiksCube(sequence).getCurrentState());
+    });
+  });
+
+  test("multiplying cubie cubes should perform one after the other", () => {
+    const a = apply_moves_to_cubies(solved_cubies, ["R", "U"]);
+    const b = apply_moves_to_cubies(solved_cubies, ["F'", "M"]);
+    expect(multiply_cubies(a, b)).toEqual(apply_moves_to_cubies(solved_cubies, ["R", "U", "F'", "M"]));
+  });
+
+  test("slice moves and rotations should move the centers", () => {
+    expect(apply_move_to_cubies(solved_cubies, "R").centers).toEqual([0, 1, 2, 3, 4, 5]);
+    // After x the F center (2) is on top
+    expect(apply_move_to_cubies(solved_cubies, "x").centers[0]).toBe(2);
+  });
+
+  test("should reject a sticker cube with a piece that does not exist", () => {
+    const cube = [...solved_cube];
+    cube[S("U", 9)] = cube[S("R", 1)];
+    expect(() => cube_to_cubies(cube)).toThrow("No corner has colors");
+
+    const edges = [...solved_cube];
+    edges[S("U", 8)] = edges[S("F", 2)];
+    expect(() => cube_to_cubies(edges)).toThrow("No edge has colors");
+  });
+
+  test("should reject an invalid move", () => {
+    expect(() => apply_move_to_cubies(solved_cubies, "Q")).toThrow("Invalid move: Q");
+  });
+});
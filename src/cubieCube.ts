@@ -0,0 +1,214 @@
+// cubieCube.ts
+
+import { S, apply_single_move_to_cube, solved_cube } from "./rubiksCube";
+import type { Cube, Face, Sticker } from "./rubiksCube";
+
+export type CornerName = "URF" | "UFL" | "ULB" | "UBR" | "DFR" | "DLF" | "DBL" | "DRB";
+export type EdgeName = "UR" | "UF" | "UL" | "UB" | "DR" | "DF" | "DL" | "DB" | "FR" | "FL" | "BL" | "BR";
+
+export const corner_names: CornerName[] = ["URF", "UFL", "ULB", "UBR", "DFR", "DLF", "DBL", "DRB"];
+export const edge_names: EdgeName[] = ["UR", "UF", "UL", "UB", "DR", "DF", "DL", "DB", "FR", "FL", "BL", "BR"];
+export const center_faces: Face[] = ["U", "R", "F", "D", "L", "B"];
+
+// The cube described piece by piece instead of sticker by sticker.
+// Index i of each array is a position on the cube (corner_names[i], edge_names[i], center_faces[i]):
+// - cp[i] / ep[i] / centers[i] is the piece currently in that position
+// - co[i] is how far that corner is twisted clockwise (0, 1 or 2), counted from its U/D sticker
+// - eo[i] is 1 if that edge is flipped, 0 otherwise
+// Centers only move with slice moves and rotations, so they are 0..5 in URFDLB order on a cube that has had neither.
+export type CubieCube = {
+  cp: number[];
+  co: number[];
+  ep: number[];
+  eo: number[];
+  centers: number[];
+};
+
+// The stickers of each corner and edge position, starting from the U or D sticker
+// (or the F or B sticker for the middle-layer edges) and going clockwise
+export const corner_facelets: number[][] = [
+  [S("U", 9), S("R", 1), S("F", 3)],
+  [S("U", 7), S("F", 1), S("L", 3)],
+  [S("U", 1), S("L", 1), S("B", 3)],
+  [S("U", 3), S("B", 1), S("R", 3)],
+  [S("D", 3), S("F", 9), S("R", 7)],
+  [S("D", 1), S("L", 9), S("F", 7)],
+  [S("D", 7), S("B", 9), S("L", 7)],
+  [S("D", 9), S("R", 9), S("B", 7)],
+];
+
+export const edge_facelets: number[][] = [
+  [S("U", 6), S("R", 2)],
+  [S("U", 8), S("F", 2)],
+  [S("U", 4), S("L", 2)],
+  [S("U", 2), S("B", 2)],
+  [S("D", 6), S("R", 8)],
+  [S("D", 2), S("F", 8)],
+  [S("D", 4), S("L", 8)],
+  [S("D", 8), S("B", 8)],
+  [S("F", 6), S("R", 4)],
+  [S("F", 4), S("L", 6)],
+  [S("B", 6), S("L", 4)],
+  [S("B", 4), S("R", 6)],
+];
+
+// The colors each piece shows in the solved cube, in the same order as its facelets
+const corner_colors: Sticker[][] = corner_facelets.map((facelets) => facelets.map((i) => solved_cube[i]));
+const edge_colors: Sticker[][] = edge_facelets.map((facelets) => facelets.map((i) => solved_cube[i]));
+const center_colors: Sticker[] = center_faces.map((face) => solved_cube[S(face, 5)]);
+
+export const solved_cubies: Readonly<CubieCube> = {
+  cp: [0, 1, 2, 3, 4, 5, 6, 7],
+  co: [0, 0, 0, 0, 0, 0, 0, 0],
+  ep: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  eo: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+  centers: [0, 1, 2, 3, 4, 5],
+};
+
+/**
+ * Finds the corner showing these colors, read clockwise from any sticker, and how far it is twisted.
+ * Returns null if no corner has these colors.
+ */
+export function read_corner(colors: readonly Sticker[]): { piece: number; twist: number } | null {
+  for (let twist = 0; twist < 3; twist++) {
+    const turned = [0, 1, 2].map((n) => colors[(twist + n) % 3]);
+    const piece = corner_colors.findIndex((c) => c.every((color, n) => color === turned[n]));
+    if (piece !== -1) {
+      return { piece, twist };
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds the edge showing these colors and whether it is flipped.
+ * Returns null if no edge has these colors.
+ */
+export function read_edge(colors: readonly Sticker[]): { piece: number; flip: number } | null {
+  for (let flip = 0; flip < 2; flip++) {
+    const piece = edge_colors.findIndex((c) => c[0] === colors[flip] && c[1] === colors[1 - flip]);
+    if (piece !== -1) {
+      return { piece, flip };
+    }
+  }
+  return null;
+}
+
+/**
+ * Reads the pieces out of a sticker cube.
+ * @throws Error if a position holds a combination of colors that is not a real piece
+ */
+export function cube_to_cubies(cube: Readonly<Cube>): CubieCube {
+  const cubies: CubieCube = { cp: [], co: [], ep: [], eo: [], centers: [] };
+
+  corner_facelets.forEach((facelets, i) => {
+    const colors = facelets.map((f) => cube[f]);
+    const corner = read_corner(colors);
+    if (!corner) {
+      throw new Error(`No corner has colors ${colors.join("")} (at ${corner_names[i]})`);
+    }
+    cubies.cp.push(corner.piece);
+    cubies.co.push(corner.twist);
+  });
+
+  edge_facelets.forEach((facelets, i) => {
+    const colors = facelets.map((f) => cube[f]);
+    const edge = read_edge(colors);
+    if (!edge) {
+      throw new Error(`No edge has colors ${colors.join("")} (at ${edge_names[i]})`);
+    }
+    cubies.ep.push(edge.piece);
+    cubies.eo.push(edge.flip);
+  });
+
+  center_faces.forEach((face) => {
+    const piece = center_colors.indexOf(cube[S(face, 5)]);
+    if (piece === -1) {
+      throw new Error(`No center has color ${cube[S(face, 5)]} (at ${face})`);
+    }
+    cubies.centers.push(piece);
+  });
+
+  return cubies;
+}
+
+/**
+ * Paints the stickers of a cubie cube. This is the exact inverse of cube_to_cubies.
+ */
+export function cubies_to_cube(cubies: Readonly<CubieCube>): Cube {
+  const cube: Cube = [...solved_cube];
+
+  cubies.cp.forEach((piece, i) => {
+    for (let n = 0; n < 3; n++) {
+      cube[corner_facelets[i][(n + cubies.co[i]) % 3]] = corner_colors[piece][n];
+    }
+  });
+
+  cubies.ep.forEach((piece, i) => {
+    for (let n = 0; n < 2; n++) {
+      cube[edge_facelets[i][(n + cubies.eo[i]) % 2]] = edge_colors[piece][n];
+    }
+  });
+
+  cubies.centers.forEach((piece, i) => {
+    cube[S(center_faces[i], 5)] = center_colors[piece];
+  });
+
+  return cube;
+}
+
+/**
+ * Performs b on a cube already in state a.
+ */
+export function multiply_cubies(a: Readonly<CubieCube>, b: Readonly<CubieCube>): CubieCube {
+  return {
+    cp: b.cp.map((from) => a.cp[from]),
+    co: b.cp.map((from, i) => (a.co[from] + b.co[i]) % 3),
+    ep: b.ep.map((from) => a.ep[from]),
+    eo: b.ep.map((from, i) => (a.eo[from] + b.eo[i]) % 2),
+    centers: b.centers.map((from) => a.centers[from]),
+  };
+}
+
+// Each move as a cubie cube, read from the sticker permutation applied to a solved cube
+const cubie_moves = new Map<string, CubieCube>();
+
+function cubie_move(move: string): CubieCube {
+  let cubies = cubie_moves.get(move);
+  if (!cubies) {
+    cubies = cube_to_cubies(apply_single_move_to_cube(solved_cube, move));
+    cubie_moves.set(move, cubies);
+  }
+  return cubies;
+}
+
+/**
+ * Applies a single move in standard notation ("R", "M'", "r2", "x") to a cubie cube.
+ * @throws Error if the move is not valid notation
+ */
+export function apply_move_to_cubies(cubies: Readonly<CubieCube>, move: string): CubieCube {
+  return multiply_cubies(cubies, cubie_move(move));
+}
+
+/**
+ * Applies a list of single moves to a cubie cube.
+ */
+export function apply_moves_to_cubies(cubies: Readonly<CubieCube>, moves: readonly string[]): CubieCube {
+  return moves.reduce<CubieCube>((current, move) => apply_move_to_cubies(current, move), cubies as CubieCube);
+}
+
+/**
+ * Returns which corner is in a position and how far it is twisted clockwise.
+ */
+export function corner_at(cubies: Readonly<CubieCube>, position: CornerName): { piece: CornerName; twist: number } {
+  const i = corner_names.indexOf(position);
+  return { piece: corner_names[cubies.cp[i]], twist: cubies.co[i] };
+}
+
+/**
+ * Returns which edge is in a position and whether it is flipped.
+ */
+export function edge_at(cubies: Readonly<CubieCube>, position: EdgeName): { piece: EdgeName; flipped: boolean } {
+  const i = edge_names.indexOf(position);
+  return { piece: edge_names[cubies.ep[i]], flipped: cubies.eo[i] === 1 };
+}
@@ -0,0 +1,93 @@
+import { compose_moves, invert_moves, mirror_moves, simplify_moves } from "./moveAlgebra";
+import { RubiksCube } from "./rubiksCube";
+
+function stateAfter(moves: string[]) {
+  return new RubiksCube(moves.join(" ")).getCurrentState();
+}
+
+describe("invert_moves", () => {
+  test("should reverse the sequence and invert every move", () => {
+    expect(invert_moves(["R", "U", "R'", "U2"])).toEqual(["U2", "R", "U'", "R'"]);
+  });
+
+  test("a sequence followed by its inverse should solve the cube", () => {
+    const sequence = ["R", "U2", "F'", "M", "r", "x", "3Rw'", "D2'"];
+    expect(new RubiksCube([...sequence, ...invert_moves(sequence)].join(" ")).isSolved()).toBe(true);
+  });
+});
+
+describe("simplify_moves", () => {
+  test("should cancel a move followed by its inverse", () => {
+    expect(simplify_moves(["R", "R'"])).toEqual([]);
+    expect(simplify_moves(["U2", "U2"])).toEqual([]);
+  });
+
+  test("should merge repeated moves", () => {
+    expect(simplify_moves(["R", "R"])).toEqual(["R2"]);
+    expect(simplify_moves(["R", "R", "R"])).toEqual(["R'"]);
+    expect(simplify_moves(["R2", "R"])).toEqual(["R'"]);
+  });
+
+  test("should merge across moves on the same axis", () => {
+    expect(simplify_moves(["R", "L", "R"])).toEqual(["R2", "L"]);
+    expect(simplify_moves(["U", "D'", "E", "U'"])).toEqual(["D'", "E"]);
+  });
+
+  test("should not merge across moves on a different axis", () => {
+    expect(simplify_moves(["R", "U", "R"])).toEqual(["R", "U", "R"]);
+  });
+
+  test("should cancel cascading moves", () => {
+    expect(simplify_moves(["R", "U", "F", "F'", "U'", "R'"])).toEqual([]);
+  });
+
+  test("should treat every spelling of a wide move as the same layers", () => {
+    expect(simplify_moves(["r", "Rw", "2Rw"])).toEqual(["r'"]);
+  });
+
+  test("should merge inner slices of bigger cubes only with the same slice", () => {
+    expect(simplify_moves(["2R", "3Rw", "12R", "2R", "R"])).toEqual(["2R2", "3Rw", "12R", "R"]);
+  });
+
+  test("should not change the resulting cube state", () => {
+    const sequence = ["R", "L", "R", "U", "U", "D'", "F", "B", "F'", "x", "M", "x'", "r", "l'"];
+    expect(stateAfter(simplify_moves(sequence))).toEqual(stateAfter(sequence));
+  });
+});
+
+describe("mirror_moves", () => {
+  test("should mirror across the M plane", () => {
+    // Sune becomes the left-handed Sune
+    expect(mirror_moves(["R", "U", "R'", "U", "R", "U2", "R'"], "M")).toEqual(["L'", "U'", "L", "U'", "L'", "U2", "L"]);
+    expect(mirror_moves(["r", "Lw'", "F", "M", "x", "3Rw"], "M")).toEqual(["l'", "Rw", "F'", "M", "x", "3Lw'"]);
+  });
+
+  test("should mirror across the S plane", () => {
+    expect(mirror_moves(["F", "R", "U'", "B2"], "S")).toEqual(["B'", "R'", "U", "F2"]);
+    expect(mirror_moves(["S", "z", "f'", "M"], "S")).toEqual(["S", "z", "b", "M'"]);
+  });
+
+  test("mirroring twice should give back the original sequence", () => {
+    const sequence = ["R", "U'", "F2", "M", "r", "x", "S'", "z"];
+    expect(mirror_moves(mirror_moves(sequence, "M"), "M")).toEqual(sequence);
+    expect(mirror_moves(mirror_moves(sequence, "S"), "S")).toEqual(sequence);
+  });
+
+  test("the mirror of a sequence that does nothing should also do nothing", () => {
+    // x is the same as R M' L', so each of these leaves the cube unchanged
+    const identityM = ["x", "L", "M", "R'"];
+    const identityS = ["z", "F'", "S'", "B"];
+    expect(new RubiksCube(identityM.join(" ")).isSolved()).toBe(true);
+    expect(new RubiksCube(mirror_moves(identityM, "M").join(" ")).isSolved()).toBe(true);
+    expect(new RubiksCube(identityS.join(" ")).isSolved()).toBe(true);
+    expect(new RubiksCube(mirror_moves(identityS, "S").join(" ")).isSolved()).toBe(true);
+  });
+});
+
+describe("compose_moves", () => {
+  test("should join sequences in order and simplify", () => {
+    expect(compose_moves(["R", "U"], ["U'", "F"])).toEqual(["R", "F"]);
+    expect(compose_moves(["R", "U"], ["U'", "R'"])).toEqual([]);
+    expect(compose_moves(["R"], ["R"], ["R"])).toEqual(["R'"]);
+  });
+});
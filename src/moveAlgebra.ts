@@ -0,0 +1,121 @@
+// moveAlgebra.ts
+
+import { invert_move, invert_moves } from "./moveNotation";
+
+export { invert_moves };
+
+export type MirrorPlane = "M" | "S";
+
+type Axis = "x" | "y" | "z";
+
+// Splits a move into its layer ("R", "r", "3Rw", "M", "x") and the number of clockwise quarter turns
+function split_move(move: string): { base: string; turns: number } {
+  if (move.endsWith("2'")) {
+    return { base: move.slice(0, -2), turns: 2 };
+  }
+  if (move.endsWith("2")) {
+    return { base: move.slice(0, -1), turns: 2 };
+  }
+  if (move.endsWith("'")) {
+    return { base: move.slice(0, -1), turns: 3 };
+  }
+  return { base: move, turns: 1 };
+}
+
+function join_move(base: string, turns: number): string {
+  switch (turns % 4) {
+    case 1:
+      return base;
+    case 2:
+      return `${base}2`;
+    case 3:
+      return `${base}'`;
+    default:
+      return "";
+  }
+}
+
+// Moves around the same axis commute, so they can be reordered and merged freely
+function axis_of(base: string): Axis {
+  const letter = base.replace(/^\d+/, "")[0].toUpperCase();
+  if ("RLMX".includes(letter)) {
+    return "x";
+  }
+  if ("UDEY".includes(letter)) {
+    return "y";
+  }
+  return "z";
+}
+
+// "r", "Rw" and "2Rw" all turn the same two layers
+function layer_key(base: string): string {
+  if (/^[urfdlb]$/.test(base)) {
+    return `${base.toUpperCase()}w`;
+  }
+  return base.replace(/^2(?=[URFDLB]w$)/, "");
+}
+
+/**
+ * Cancels and merges moves that turn the same layers.
+ * Moves around the same axis commute, so "R L R" becomes "R2 L" and "R U U' R'" cancels completely.
+ */
+export function simplify_moves(moves: readonly string[]): string[] {
+  const stack: { base: string; turns: number }[] = [];
+
+  for (const move of moves) {
+    const { base, turns } = split_move(move);
+    const axis = axis_of(base);
+    const key = layer_key(base);
+
+    // Look back through the run of moves on the same axis for one turning the same layers
+    let merged = false;
+    for (let i = stack.length - 1; i >= 0 && axis_of(stack[i].base) === axis; i--) {
+      if (layer_key(stack[i].base) === key) {
+        stack[i].turns = (stack[i].turns + turns) % 4;
+        if (stack[i].turns === 0) {
+          stack.splice(i, 1);
+        }
+        merged = true;
+        break;
+      }
+    }
+    if (!merged) {
+      stack.push({ base, turns });
+    }
+  }
+
+  return stack.map(({ base, turns }) => join_move(base, turns));
+}
+
+/**
+ * Reflects a sequence through the M plane (swapping left and right) or the S plane (swapping front and back).
+ * Moves around the reflected axis swap sides, keeping their direction in space, which reverses their notation
+ * ("R" becomes "L'"). The slice and rotation on that axis are unchanged. Every other move is inverted.
+ */
+export function mirror_moves(moves: readonly string[], plane: MirrorPlane): string[] {
+  const [first, second] = plane === "M" ? ["R", "L"] : ["F", "B"];
+  const mirrorAxis: Axis = plane === "M" ? "x" : "z";
+
+  return moves.map((move) => {
+    const { base } = split_move(move);
+    if (axis_of(base) !== mirrorAxis) {
+      return invert_move(move);
+    }
+    if (base === plane || base === mirrorAxis) {
+      return move;
+    }
+    const swapped = move.replace(/[A-Za-z]/, (letter) => {
+      const upper = letter.toUpperCase();
+      const replacement = upper === first ? second : upper === second ? first : upper;
+      return letter === upper ? replacement : replacement.toLowerCase();
+    });
+    return invert_move(swapped);
+  });
+}
+
+/**
+ * Joins sequences into one, performing them in the order given, and simplifies the result.
+ */
+export function compose_moves(...sequences: (readonly string[])[]): string[] {
+  return simplify_moves(sequences.flat());
+}
@@ -0,0 +1,29 @@
+import { count_moves, describe_metrics, move_metrics, subtract_metrics } from "./moveMetrics";
+import { parse_moves } from "./moveNotation";
+
+describe("Move metrics", () => {
+  test("should count face turns, slices and rotations in each metric", () => {
+    expect(move_metrics("R")).toEqual({ htm: 1, qtm: 1, stm: 1, etm: 1 });
+    expect(move_metrics("R2")).toEqual({ htm: 1, qtm: 2, stm: 1, etm: 1 });
+    expect(move_metrics("U2'")).toEqual({ htm: 1, qtm: 2, stm: 1, etm: 1 });
+    expect(move_metrics("M'")).toEqual({ htm: 2, qtm: 2, stm: 1, etm: 1 });
+    expect(move_metrics("E2")).toEqual({ htm: 2, qtm: 4, stm: 1, etm: 1 });
+    expect(move_metrics("x")).toEqual({ htm: 0, qtm: 0, stm: 0, etm: 1 });
+  });
+
+  test("wide turns should count like face turns and inner layers like slices", () => {
+    for (const move of ["r", "Rw", "3Rw", "1R"]) {
+      expect(move_metrics(move)).toEqual({ htm: 1, qtm: 1, stm: 1, etm: 1 });
+    }
+    expect(move_metrics("2R2")).toEqual({ htm: 2, qtm: 4, stm: 1, etm: 1 });
+  });
+
+  test("should add up a sequence", () => {
+    // The U perm with M moves
+    expect(count_moves(parse_moves("M2 U M U2 M' U M2"))).toEqual({ htm: 11, qtm: 16, stm: 7, etm: 7 });
+    expect(describe_metrics(count_moves(parse_moves("x R U R' U' x'")))).toBe("4 HTM, 4 QTM, 4 STM, 6 ETM");
+    expect(count_moves([])).toEqual({ htm: 0, qtm: 0, stm: 0, etm: 0 });
+    expect(subtract_metrics(count_moves(["R", "U2", "M"]), count_moves(["M"]))).toEqual(count_moves(["R", "U2"]));
+    expect(() => count_moves(["Q"])).toThrow("Invalid move: Q");
+  });
+});
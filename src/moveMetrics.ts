@@ -0,0 +1,66 @@
+// moveMetrics.ts
+//
+// The move counts speedsolvers compare solutions by. They differ in what counts as one move:
+// - HTM (half turn metric): any turn of an outer face, a quarter or a half, is 1; a slice turn is 2, since
+//   it is the two faces around it turned the other way
+// - QTM (quarter turn metric): like HTM, but a half turn counts as two quarter turns
+// - STM (slice turn metric): any turn of any layer or block of layers is 1
+// - ETM (execution turn metric): every move is 1, rotations included
+// Rotations count 0 in every metric but ETM. A wide turn ("r", "3Rw") counts like a face turn, since it
+// is one with the cube rotated. A turn of the Pyraminx or the Skewb is a single turn in every metric.
+
+import { single_move_pattern } from "./moveNotation";
+
+export type MoveMetrics = {
+  htm: number;
+  qtm: number;
+  stm: number;
+  etm: number;
+};
+
+export const no_moves: MoveMetrics = { htm: 0, qtm: 0, stm: 0, etm: 0 };
+
+/**
+ * Counts a single move in every metric.
+ * @throws Error if the move is not valid notation
+ */
+export function move_metrics(move: string): MoveMetrics {
+  const match = single_move_pattern.exec(move);
+  if (!match) {
+    throw new Error(`Invalid move: ${move}`);
+  }
+  const [, layer, face, wide, other, modifier] = match;
+  const quarters = modifier === "2" || modifier === "2'" ? 2 : 1;
+
+  if (other !== undefined && "xyz".includes(other)) {
+    return { htm: 0, qtm: 0, stm: 0, etm: 1 };
+  }
+  // M, E and S, and inner layers like "2R" that do not reach the outside of the cube
+  const slice =
+    (other !== undefined && "MES".includes(other)) || (face !== undefined && !wide && Number(layer ?? 1) > 1);
+  const faces = slice ? 2 : 1;
+  return { htm: faces, qtm: faces * quarters, stm: 1, etm: 1 };
+}
+
+export function add_metrics(a: MoveMetrics, b: MoveMetrics): MoveMetrics {
+  return { htm: a.htm + b.htm, qtm: a.qtm + b.qtm, stm: a.stm + b.stm, etm: a.etm + b.etm };
+}
+
+export function subtract_metrics(a: MoveMetrics, b: MoveMetrics): MoveMetrics {
+  return { htm: a.htm - b.htm, qtm: a.qtm - b.qtm, stm: a.stm - b.stm, etm: a.etm - b.etm };
+}
+
+/**
+ * Counts a sequence of single moves in every metric.
+ * @throws Error if a move is not valid notation
+ */
+export function count_moves(moves: readonly string[]): MoveMetrics {
+  return moves.map(move_metrics).reduce(add_metrics, no_moves);
+}
+
+/**
+ * Writes the counts out, e.g. "7 HTM, 8 QTM, 7 STM, 8 ETM".
+ */
+export function describe_metrics(metrics: MoveMetrics): string {
+  return `${metrics.htm} HTM, ${metrics.qtm} QTM, ${metrics.stm} STM, ${metrics.etm} ETM`;
+}
@@ -0,0 +1,122 @@
+import { MoveNotationError, expand_moves, invert_move, parse_move_sequence, parse_moves } from "./moveNotation";
+
+function parseError(input: string): MoveNotationError {
+  try {
+    parse_move_sequence(input);
+  } catch (e) {
+    if (e instanceof MoveNotationError) {
+      return e;
+    }
+    throw e;
+  }
+  throw new Error(`Expected "${input}" to fail to parse`);
+}
+
+describe("parse_move_sequence", () => {
+  test("should parse a plain space-separated sequence", () => {
+    expect(parse_move_sequence("R U R' U2")).toEqual([
+      { type: "move", move: "R", column: 1 },
+      { type: "move", move: "U", column: 3 },
+      { type: "move", move: "R'", column: 5 },
+      { type: "move", move: "U2", column: 8 },
+    ]);
+  });
+
+  test("should accept slice, wide and rotation moves", () => {
+    expect(parse_moves("M2 E' S r Uw 3Rw x y2 z'")).toEqual(["M2", "E'", "S", "r", "Uw", "3Rw", "x", "y2", "z'"]);
+  });
+
+  test("should treat empty or whitespace-only input as no moves", () => {
+    expect(parse_moves("")).toEqual([]);
+    expect(parse_moves("   ")).toEqual([]);
+  });
+
+  test("should parse a repeated group", () => {
+    const [group] = parse_move_sequence("(R U R' U')3");
+    expect(group).toMatchObject({ type: "group", repeat: 3, column: 1 });
+    expect(parse_moves("(R U)2 F")).toEqual(["R", "U", "R", "U", "F"]);
+  });
+
+  test("should treat a group without a count as a single repetition", () => {
+    expect(parse_moves("(R U) F")).toEqual(["R", "U", "F"]);
+  });
+
+  test("should expand commutators", () => {
+    expect(parse_moves("[R, U]")).toEqual(["R", "U", "R'", "U'"]);
+    expect(parse_moves("[R U, D2]")).toEqual(["R", "U", "D2", "U'", "R'", "D2"]);
+  });
+
+  test("should expand conjugates", () => {
+    expect(parse_moves("[F: R U R' U']")).toEqual(["F", "R", "U", "R'", "U'", "F'"]);
+  });
+
+  test("should expand nested structures", () => {
+    expect(parse_moves("[F: (R U R' U')2]")).toEqual(["F", "R", "U", "R'", "U'", "R", "U", "R'", "U'", "F'"]);
+    expect(parse_moves("([R, U])2")).toEqual(["R", "U", "R'", "U'", "R", "U", "R'", "U'"]);
+  });
+
+  test("should reject moves that are not separated by spaces", () => {
+    const error = parseError("R RxU");
+    expect(error.token).toBe("RxU");
+    expect(error.column).toBe(3);
+    expect(error.message).toBe('Unknown move "RxU" at column 3');
+  });
+
+  test("should reject unknown characters", () => {
+    expect(parseError("R U Q").token).toBe("Q");
+    expect(parseError("R U Q").column).toBe(5);
+    expect(parseError("R2'' U").token).toBe("R2''");
+  });
+
+  test("should reject a repeat count that is not attached to a group", () => {
+    expect(parseError("(R U) 3").token).toBe("3");
+    expect(parseError("R 3").column).toBe(3);
+  });
+
+  test("should reject unbalanced brackets", () => {
+    const unclosed = parseError("(R U");
+    expect(unclosed.message).toBe('Unclosed "(" opened at column 1 at column 5');
+    expect(unclosed.token).toBe("");
+
+    const stray = parseError("R U)");
+    expect(stray.token).toBe(")");
+    expect(stray.column).toBe(4);
+
+    expect(parseError("[R, U").message).toContain('Unclosed "["');
+    expect(parseError("(R U]").token).toBe("]");
+  });
+
+  test("should reject brackets without a separator or with empty sides", () => {
+    expect(parseError("[R U]").token).toBe("]");
+    expect(parseError("[, U]").token).toBe("[");
+    expect(parseError("()").token).toBe("()");
+    expect(parseError("(R)0").token).toBe("0");
+  });
+
+  test("should reject repeats and sequences too long to expand", () => {
+    expect(parse_moves("(R U)105")).toHaveLength(210);
+    expect(parseError("(R U)999999999").message).toBe("Repeat count must be at most 1000 at column 6");
+    const nested = parseError("R ((R U)1000)1000");
+    expect(nested.message).toBe("The sequence expands to more than 10000 moves at column 3");
+    expect(nested.token).toBe("(");
+    expect(parseError("[(R U)1000, (F U2 D L)1000]").token).toBe("[");
+    expect(parseError(Array(10001).fill("R").join(" ")).column).toBe(1);
+  });
+});
+
+describe("invert_move", () => {
+  test("should invert every modifier", () => {
+    expect(invert_move("R")).toBe("R'");
+    expect(invert_move("R'")).toBe("R");
+    expect(invert_move("R2")).toBe("R2");
+    expect(invert_move("R2'")).toBe("R2");
+    expect(invert_move("3Rw'")).toBe("3Rw");
+    expect(invert_move("x")).toBe("x'");
+  });
+});
+
+describe("expand_moves", () => {
+  test("should flatten a parsed tree", () => {
+    expect(expand_moves(parse_move_sequence("[R: U] (D)2"))).toEqual(["R", "U", "R'", "D", "D"]);
+  });
+});
@@ -0,0 +1,275 @@
+// moveNotation.ts
+
+// A single move: an outer face, inner slice ("2R"), slice, wide turn ("r", "Rw", "3Rw") or rotation,
+// followed by an optional modifier ("'", "2" or "2'")
+export const single_move_pattern = /^(?:([1-9]\d*)?([URFDLB])(w)?|([MESurfdlbxyz]))(2'|2|')?$/;
+
+// A parsed move sequence. Groups, commutators and conjugates keep the column they start at
+// so callers can point back into the original input.
+export type MoveNode =
+  | { type: "move"; move: string; column: number }
+  | { type: "group"; moves: MoveNode[]; repeat: number; column: number }
+  | { type: "commutator"; a: MoveNode[]; b: MoveNode[]; column: number }
+  | { type: "conjugate"; setup: MoveNode[]; body: MoveNode[]; column: number };
+
+// Limits on what a sequence may expand to, so "(R U)999999999" is rejected instead of filling the memory.
+// (R U)105, which brings the cube back to solved, still fits.
+export const max_repeat = 1000;
+export const max_expanded_moves = 10000;
+
+export class MoveNotationError extends Error {
+  // The offending token ("" at the end of the input) and its 1-based column
+  readonly token: string;
+  readonly column: number;
+
+  constructor(message: string, token: string, column: number) {
+    super(`${message} at column ${column}`);
+    this.name = "MoveNotationError";
+    this.token = token;
+    this.column = column;
+  }
+}
+
+type TokenType = "move" | "count" | "(" | ")" | "[" | "]" | "," | ":" | "end";
+
+type Token = { type: TokenType; text: string; column: number };
+
+const punctuation = "()[],:";
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (punctuation.includes(char)) {
+      tokens.push({ type: char as TokenType, text: char, column: i + 1 });
+      i++;
+      continue;
+    }
+
+    // Everything up to the next space or punctuation is one word, so "RxU" is reported
+    // as a single bad token instead of being read as "R x U"
+    let end = i;
+    while (end < input.length && !/\s/.test(input[end]) && !punctuation.includes(input[end])) {
+      end++;
+    }
+    const text = input.slice(i, end);
+    const previous = tokens[tokens.length - 1];
+
+    if (/^\d+$/.test(text) && previous?.type === ")" && previous.column === i) {
+      tokens.push({ type: "count", text, column: i + 1 });
+    } else if (single_move_pattern.test(text)) {
+      tokens.push({ type: "move", text, column: i + 1 });
+    } else {
+      throw new MoveNotationError(`Unknown move "${text}"`, text, i + 1);
+    }
+    i = end;
+  }
+
+  tokens.push({ type: "end", text: "", column: input.length + 1 });
+  return tokens;
+}
+
+// The number of single moves a tree expands to, without expanding it
+function expanded_length(nodes: readonly MoveNode[]): number {
+  return nodes.reduce((length, node) => {
+    switch (node.type) {
+      case "move":
+        return length + 1;
+      case "group":
+        return length + expanded_length(node.moves) * node.repeat;
+      case "commutator":
+        return length + 2 * (expanded_length(node.a) + expanded_length(node.b));
+      case "conjugate":
+        return length + 2 * expanded_length(node.setup) + expanded_length(node.body);
+    }
+  }, 0);
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private unexpected(token: Token): MoveNotationError {
+    if (token.type === "end") {
+      return new MoveNotationError("Unexpected end of input", "", token.column);
+    }
+    return new MoveNotationError(`Unexpected "${token.text}"`, token.text, token.column);
+  }
+
+  parse(): MoveNode[] {
+    const moves = this.parseSequence();
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw this.unexpected(token);
+    }
+    this.checkLength(moves, "", 1);
+    return moves;
+  }
+
+  // Checked for every group and bracket as it is parsed, so nested repeats cannot multiply past the limit
+  private checkLength(moves: readonly MoveNode[], token: string, column: number) {
+    if (expanded_length(moves) > max_expanded_moves) {
+      throw new MoveNotationError(`The sequence expands to more than ${max_expanded_moves} moves`, token, column);
+    }
+  }
+
+  private parseSequence(): MoveNode[] {
+    const moves: MoveNode[] = [];
+    while (true) {
+      const token = this.peek();
+      switch (token.type) {
+        case "move":
+          this.next();
+          moves.push({ type: "move", move: token.text, column: token.column });
+          break;
+        case "(":
+          moves.push(this.parseGroup());
+          break;
+        case "[":
+          moves.push(this.parseBracket());
+          break;
+        default:
+          return moves;
+      }
+    }
+  }
+
+  private parseGroup(): MoveNode {
+    const open = this.next();
+    const moves = this.parseSequence();
+    const close = this.next();
+    if (close.type !== ")") {
+      throw close.type === "end"
+        ? new MoveNotationError(`Unclosed "(" opened at column ${open.column}`, "", close.column)
+        : this.unexpected(close);
+    }
+    if (moves.length === 0) {
+      throw new MoveNotationError("Empty group", "()", open.column);
+    }
+
+    let repeat = 1;
+    if (this.peek().type === "count") {
+      const count = this.next();
+      repeat = parseInt(count.text, 10);
+      if (repeat < 1) {
+        throw new MoveNotationError("Repeat count must be at least 1", count.text, count.column);
+      }
+      if (count.text.length > String(max_repeat).length || repeat > max_repeat) {
+        throw new MoveNotationError(`Repeat count must be at most ${max_repeat}`, count.text, count.column);
+      }
+    }
+    const group: MoveNode = { type: "group", moves, repeat, column: open.column };
+    this.checkLength([group], "(", open.column);
+    return group;
+  }
+
+  private parseBracket(): MoveNode {
+    const open = this.next();
+    const first = this.parseSequence();
+    const separator = this.next();
+    if (separator.type !== "," && separator.type !== ":") {
+      throw separator.type === "end"
+        ? new MoveNotationError(`Unclosed "[" opened at column ${open.column}`, "", separator.column)
+        : new MoveNotationError(`Expected "," or ":" but found "${separator.text}"`, separator.text, separator.column);
+    }
+    const second = this.parseSequence();
+    const close = this.next();
+    if (close.type !== "]") {
+      throw close.type === "end"
+        ? new MoveNotationError(`Unclosed "[" opened at column ${open.column}`, "", close.column)
+        : this.unexpected(close);
+    }
+    if (first.length === 0 || second.length === 0) {
+      throw new MoveNotationError(`Empty side in "[...${separator.text}...]"`, "[", open.column);
+    }
+
+    const bracket: MoveNode =
+      separator.type === ","
+        ? { type: "commutator", a: first, b: second, column: open.column }
+        : { type: "conjugate", setup: first, body: second, column: open.column };
+    this.checkLength([bracket], "[", open.column);
+    return bracket;
+  }
+}
+
+/**
+ * Parses a move sequence in standard notation into a move tree.
+ * Supports plain moves ("R U R' U'"), repeated groups ("(R U R' U')3"),
+ * commutators ("[R, U]" = R U R' U') and conjugates ("[F: R U R' U']" = F R U R' U' F').
+ * @throws MoveNotationError naming the offending token and its column
+ */
+export function parse_move_sequence(input: string): MoveNode[] {
+  return new Parser(tokenize(input)).parse();
+}
+
+/**
+ * Returns the inverse of a single move: "R" -> "R'", "R'" -> "R", "R2" -> "R2".
+ */
+export function invert_move(move: string): string {
+  if (move.endsWith("2'")) {
+    return move.slice(0, -1);
+  }
+  if (move.endsWith("2")) {
+    return move;
+  }
+  if (move.endsWith("'")) {
+    return move.slice(0, -1);
+  }
+  return `${move}'`;
+}
+
+/**
+ * Returns the inverse of a flat list of moves, undoing the last move first.
+ */
+export function invert_moves(moves: readonly string[]): string[] {
+  return [...moves].reverse().map(invert_move);
+}
+
+/**
+ * Flattens a move tree into the list of single moves it performs.
+ */
+export function expand_moves(nodes: readonly MoveNode[]): string[] {
+  return nodes.flatMap((node): string[] => {
+    switch (node.type) {
+      case "move":
+        return [node.move];
+      case "group": {
+        const moves = expand_moves(node.moves);
+        return Array.from({ length: node.repeat }, () => moves).flat();
+      }
+      case "commutator": {
+        const a = expand_moves(node.a);
+        const b = expand_moves(node.b);
+        return [...a, ...b, ...invert_moves(a), ...invert_moves(b)];
+      }
+      case "conjugate": {
+        const setup = expand_moves(node.setup);
+        return [...setup, ...expand_moves(node.body), ...invert_moves(setup)];
+      }
+    }
+  });
+}
+
+/**
+ * Parses a move sequence and flattens it into single moves.
+ * @throws MoveNotationError if the sequence is not valid notation
+ */
+export function parse_moves(input: string): string[] {
+  return expand_moves(parse_move_sequence(input));
+}
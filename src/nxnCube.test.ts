@@ -0,0 +1,103 @@
+import {
+  apply_move_to_nxn_cube,
+  apply_permutation,
+  compose_permutations,
+  cube_size,
+  move_permutation,
+  sequence_permutation,
+  sticker_index,
+} from "./nxnCube";
+import { RubiksCube, S, is_solved_cube, solved_cube } from "./rubiksCube";
+import { solved_cube_for, western_scheme } from "./colorScheme";
+import type { Cube } from "./rubiksCube";
+
+function apply_moves(cube: Cube, sequence: string): Cube {
+  return sequence.split(" ").reduce((c, move) => apply_move_to_nxn_cube(c, move), cube);
+}
+
+// Every sticker labelled with its own index, so any difference between two permutations shows
+function labelled(size: number): Cube {
+  return Array.from({ length: 6 * size * size }, (_, i) => String(i)) as unknown as Cube;
+}
+
+describe("NxN cubes", () => {
+  test("should work out the size from the number of stickers", () => {
+    expect(cube_size(solved_cube)).toBe(3);
+    expect(cube_size(solved_cube_for(western_scheme, 5))).toBe(5);
+    expect(() => cube_size(solved_cube.slice(1))).toThrow("No cube has 53 stickers");
+  });
+
+  test("should number stickers like S() on a 3x3", () => {
+    expect(sticker_index(3, "F", 1, 0)).toBe(S("F", 4));
+    expect(sticker_index(3, "B", 2, 2)).toBe(S("B", 9));
+  });
+
+  test("every move turned four times should do nothing", () => {
+    for (let size = 2; size <= 7; size++) {
+      const moves = ["U", "R", "F", "D", "L", "B", "Rw", "2R", `${size}Uw`, "f", "x", "y", "z"];
+      if (size % 2 === 1) {
+        moves.push("M", "E", "S");
+      }
+      for (const move of moves) {
+        const once = apply_move_to_nxn_cube(labelled(size), move);
+        expect(once).not.toEqual(labelled(size));
+        expect(apply_moves(labelled(size), `${move} ${move} ${move} ${move}`)).toEqual(labelled(size));
+      }
+    }
+  });
+
+  test("wide moves and rotations should turn the same layers as the single layers together", () => {
+    const cube = labelled(4);
+    expect(apply_moves(cube, "Rw")).toEqual(apply_moves(cube, "R 2R"));
+    expect(apply_moves(cube, "3Rw'")).toEqual(apply_moves(cube, "R' 2R' 3R'"));
+    expect(apply_moves(cube, "x")).toEqual(apply_moves(cube, "R 2R 3R L'"));
+    expect(apply_moves(labelled(5), "M")).toEqual(apply_moves(labelled(5), "3L"));
+    expect(apply_moves(labelled(3), "2R")).toEqual(apply_moves(labelled(3), "M'"));
+  });
+
+  test("a composed sequence should do the same as its moves one by one", () => {
+    const sequence = "R U2 3Fw' 2D M E' x";
+    const cube = labelled(5);
+    expect(apply_permutation(cube, sequence_permutation(5, sequence.split(" ")))).toEqual(apply_moves(cube, sequence));
+    expect(apply_permutation(cube, sequence_permutation(5, []))).toEqual(cube);
+    expect(compose_permutations(move_permutation(3, "U"), move_permutation(3, "U'"))).toEqual(
+      sequence_permutation(3, [])
+    );
+  });
+
+  test("a 2x2 should return to solved after six sexy moves", () => {
+    const cube = solved_cube_for(western_scheme, 2);
+    const sexy = "R U R' U'";
+    expect(is_solved_cube(apply_moves(cube, sexy))).toBe(false);
+    expect(apply_moves(cube, Array(6).fill(sexy).join(" "))).toEqual(cube);
+  });
+
+  test("should reject moves on layers the cube does not have", () => {
+    expect(() => move_permutation(4, "M")).toThrow("Invalid move on a 4x4x4 cube: M");
+    expect(() => move_permutation(3, "4R")).toThrow("Invalid move on a 3x3x3 cube: 4R");
+    expect(() => move_permutation(3, "Q")).toThrow("Invalid move: Q");
+  });
+
+  test("a RubiksCube should take its size from its initial state", () => {
+    const cube = new RubiksCube("Rw U 2R'", solved_cube_for(western_scheme, 4));
+    expect(cube.size).toBe(4);
+    expect(cube.getCurrentState().length).toBe(96);
+    expect(cube.isSolved()).toBe(false);
+    expect(cube.getStickerAt("U", 1)).toBe("Y");
+    expect(cube.getStickerAt("F", 16)).toBe("W");
+
+    cube.applyMoveSequence("2R U' Rw'");
+    expect(cube.isSolved()).toBe(true);
+
+    expect(() => cube.applyMoveSequence("R M")).toThrow("Invalid move on a 4x4x4 cube: M");
+    expect(cube.getMoveHistory().length).toBe(6);
+  });
+
+  test("scrambles of bigger cubes should use wide moves", () => {
+    const cube = new RubiksCube(undefined, solved_cube_for(western_scheme, 6));
+    cube.scramble(200);
+    expect(cube.getMoveHistory().some((move) => move.startsWith("3"))).toBe(true);
+    expect(cube.getMoveHistory().some((move) => /^[URFDLB]w/.test(move))).toBe(true);
+    expect(cube.isSolved()).toBe(false);
+  });
+});
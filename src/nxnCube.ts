@@ -0,0 +1,229 @@
+// nxnCube.ts
+//
+// Move tables for cubes of any size, generated from the geometry of the cube instead of written out by hand.
+// Every sticker sits on a cubie at integer coordinates (x from L to R, y from D to U, z from B to F) and faces
+// out of one side. Turning a layer rotates the coordinates and facing of every sticker in it, and looking up
+// where each sticker lands gives the permutation for the move.
+
+import { single_move_pattern } from "./moveNotation";
+import type { Cube, Face } from "./rubiksCube";
+
+export const min_cube_size = 2;
+export const max_cube_size = 7;
+
+const faces: Face[] = ["U", "R", "F", "D", "L", "B"];
+
+type Vector = [number, number, number];
+
+// The direction each face looks out of the cube
+const normals: Record<Face, Vector> = {
+  U: [0, 1, 0],
+  R: [1, 0, 0],
+  F: [0, 0, 1],
+  D: [0, -1, 0],
+  L: [-1, 0, 0],
+  B: [0, 0, -1],
+};
+
+// A clockwise quarter turn of each face, as seen looking at that face, on coordinates centered on the cube
+const quarter_turns: Record<Face, (v: Vector) => Vector> = {
+  U: ([x, y, z]) => [-z, y, x],
+  R: ([x, y, z]) => [x, z, -y],
+  F: ([x, y, z]) => [y, -x, z],
+  D: ([x, y, z]) => [z, y, -x],
+  L: ([x, y, z]) => [x, -z, y],
+  B: ([x, y, z]) => [-y, x, z],
+};
+
+/**
+ * The index of a sticker in a cube of the given size. Rows and columns count from 0, as the face is drawn
+ * in the unrolled net: U with B at the top, D with F at the top, and the side faces with U at the top.
+ * On a 3x3 this is S(face, row * 3 + col + 1) - 1.
+ */
+export function sticker_index(size: number, face: Face, row: number, col: number): number {
+  return faces.indexOf(face) * size * size + row * size + col;
+}
+
+/**
+ * The size of a cube, worked out from its number of stickers. Masked cubes work too.
+ * @throws Error if no cube has that many stickers
+ */
+export function cube_size(cube: readonly unknown[]): number {
+  const size = Math.round(Math.sqrt(cube.length / 6));
+  if (6 * size * size !== cube.length || size < 1) {
+    throw new Error(`No cube has ${cube.length} stickers`);
+  }
+  return size;
+}
+
+// The cubie a sticker is on, in coordinates from 0 to size - 1
+function sticker_position(size: number, face: Face, row: number, col: number): Vector {
+  const last = size - 1;
+  switch (face) {
+    case "U":
+      return [col, last, row];
+    case "D":
+      return [col, 0, last - row];
+    case "F":
+      return [col, last - row, last];
+    case "B":
+      return [last - col, last - row, 0];
+    case "R":
+      return [last, last - row, last - col];
+    case "L":
+      return [0, last - row, col];
+  }
+}
+
+// How deep a cubie is in the layers counted from a face: 1 for the face itself
+function depth_from(face: Face, [x, y, z]: Vector, size: number): number {
+  const [nx, ny, nz] = normals[face];
+  const along = nx !== 0 ? x : ny !== 0 ? y : z;
+  return (nx + ny + nz > 0 ? size - 1 - along : along) + 1;
+}
+
+// Stickers by where they are, to find where a turned sticker lands
+const sticker_lookup = new Map<number, Map<string, number>>();
+
+function find_sticker(size: number, position: Vector, normal: Vector): number {
+  let lookup = sticker_lookup.get(size);
+  if (!lookup) {
+    lookup = new Map();
+    for (const face of faces) {
+      for (let row = 0; row < size; row++) {
+        for (let col = 0; col < size; col++) {
+          const key = `${sticker_position(size, face, row, col)}|${normals[face]}`;
+          lookup.set(key, sticker_index(size, face, row, col));
+        }
+      }
+    }
+    sticker_lookup.set(size, lookup);
+  }
+  return lookup.get(`${position}|${normal}`)!;
+}
+
+// A clockwise quarter turn of the given layers, counted from the face: the sticker that ends up at index i
+// comes from index permutation[i]
+function layer_turn(size: number, face: Face, layers: number[]): number[] {
+  const permutation = Array.from({ length: 6 * size * size }, (_, i) => i);
+  const turn = quarter_turns[face];
+  const center = (size - 1) / 2;
+
+  for (const from of faces) {
+    for (let row = 0; row < size; row++) {
+      for (let col = 0; col < size; col++) {
+        const position = sticker_position(size, from, row, col);
+        if (!layers.includes(depth_from(face, position, size))) {
+          continue;
+        }
+        // Turn around the center of the cube, doubled so every coordinate stays a whole number
+        const doubled = position.map((p) => 2 * (p - center)) as Vector;
+        const turned = turn(doubled).map((p) => p / 2 + center) as Vector;
+        const to = find_sticker(size, turned, turn(normals[from]));
+        permutation[to] = sticker_index(size, from, row, col);
+      }
+    }
+  }
+
+  return permutation;
+}
+
+// Which face a move turns like, and which layers it turns, counted from that face
+function move_layers(size: number, move: string): { face: Face; layers: number[]; modifier: string } | null {
+  const match = single_move_pattern.exec(move);
+  if (!match) {
+    return null;
+  }
+  const [, depth, face, wide, other, modifier = ""] = match;
+  const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  const middle = (size + 1) / 2;
+
+  if (face) {
+    const n = depth ? Number(depth) : wide ? 2 : 1;
+    return { face: face as Face, layers: wide ? range(1, n) : [n], modifier };
+  }
+  switch (other) {
+    case "M":
+      return { face: "L", layers: [middle], modifier };
+    case "E":
+      return { face: "D", layers: [middle], modifier };
+    case "S":
+      return { face: "F", layers: [middle], modifier };
+    case "x":
+      return { face: "R", layers: range(1, size), modifier };
+    case "y":
+      return { face: "U", layers: range(1, size), modifier };
+    case "z":
+      return { face: "F", layers: range(1, size), modifier };
+    default:
+      return { face: other.toUpperCase() as Face, layers: [1, 2], modifier };
+  }
+}
+
+const move_permutations = new Map<string, number[]>();
+
+/**
+ * The permutation for a move on a cube of the given size: the sticker that ends up at index i
+ * comes from index permutation[i].
+ * @throws Error if the move is not valid notation, or turns a layer the cube does not have
+ */
+export function move_permutation(size: number, move: string): number[] {
+  const key = `${size}:${move}`;
+  let permutation = move_permutations.get(key);
+  if (permutation) {
+    return permutation;
+  }
+
+  const parsed = move_layers(size, move);
+  if (!parsed) {
+    throw new Error(`Invalid move: ${move}`);
+  }
+  const { face, layers, modifier } = parsed;
+  if (layers.some((layer) => !Number.isInteger(layer) || layer < 1 || layer > size)) {
+    throw new Error(`Invalid move on a ${size}x${size}x${size} cube: ${move}`);
+  }
+
+  // Half and counter-clockwise turns are compiled into a single permutation, so they cost no more to apply
+  const quarter = layer_turn(size, face, layers);
+  const turns = modifier === "'" ? 3 : modifier ? 2 : 1;
+  permutation = quarter;
+  for (let i = 1; i < turns; i++) {
+    permutation = compose_permutations(permutation, quarter);
+  }
+
+  move_permutations.set(key, permutation);
+  return permutation;
+}
+
+/**
+ * The permutation that does one permutation and then another, so a whole sequence of moves can be applied
+ * to a cube in a single pass.
+ */
+export function compose_permutations(first: readonly number[], second: readonly number[]): number[] {
+  return second.map((from) => first[from]);
+}
+
+/**
+ * The permutation for a sequence of moves on a cube of the given size, composed from the permutation of
+ * each move.
+ * @throws Error if a move is not valid notation, or turns a layer the cube does not have
+ */
+export function sequence_permutation(size: number, moves: readonly string[]): number[] {
+  let permutation = Array.from({ length: 6 * size * size }, (_, i) => i);
+  for (const move of moves) {
+    permutation = compose_permutations(permutation, move_permutation(size, move));
+  }
+  return permutation;
+}
+
+export function apply_permutation(cube: Readonly<Cube>, permutation: readonly number[]): Cube {
+  return permutation.map((from) => cube[from]);
+}
+
+/**
+ * Applies a single move in standard notation to a cube of any size.
+ * @throws Error if the move is not valid notation, or turns a layer the cube does not have
+ */
+export function apply_move_to_nxn_cube(cube: Readonly<Cube>, move: string): Cube {
+  return apply_permutation(cube, move_permutation(cube_size(cube), move));
+}
@@ -0,0 +1,52 @@
+import { measure_progress, trace_progress } from "./progress";
+import { RubiksCube, random_move_scramble, solved_cube } from "./rubiksCube";
+import { seeded_random } from "./random";
+
+const unchanged = { solvedCorners: 0, solvedEdges: 0, misorientedCorners: 0, misorientedEdges: 0, lowerBound: 0 };
+
+describe("Progress", () => {
+  test("a solved cube should score as solved in any orientation", () => {
+    const solved = { solvedCorners: 8, solvedEdges: 12, misorientedCorners: 0, misorientedEdges: 0, lowerBound: 0 };
+    expect(measure_progress(solved_cube)).toEqual(solved);
+    expect(measure_progress(new RubiksCube("x y'").getCurrentState())).toEqual(solved);
+  });
+
+  test("should count the pieces a move disturbs", () => {
+    expect(measure_progress(new RubiksCube("R").getCurrentState())).toEqual({
+      solvedCorners: 4,
+      solvedEdges: 8,
+      misorientedCorners: 4,
+      misorientedEdges: 0,
+      lowerBound: 1,
+    });
+    expect(measure_progress(new RubiksCube("F").getCurrentState()).misorientedEdges).toBe(4);
+    expect(measure_progress(new RubiksCube("U2").getCurrentState()).lowerBound).toBe(1);
+  });
+
+  test("the lower bound should never be more than the moves that made the scramble", () => {
+    const random = seeded_random(13);
+    for (let length = 1; length <= 12; length++) {
+      const scramble = random_move_scramble(length, random);
+      const { lowerBound } = measure_progress(new RubiksCube(scramble.join(" ")).getCurrentState());
+      expect(lowerBound).toBeGreaterThan(0);
+      expect(lowerBound).toBeLessThanOrEqual(length);
+    }
+  });
+
+  test("should report the change made by each move", () => {
+    const report = trace_progress(new RubiksCube("F").getCurrentState(), ["F'", "R", "R'"]);
+    expect(report.steps.map(({ move }) => move)).toEqual(["F'", "R", "R'"]);
+    expect(report.steps[0].delta).toEqual({
+      solvedCorners: 4,
+      solvedEdges: 4,
+      misorientedCorners: -4,
+      misorientedEdges: -4,
+      lowerBound: -1,
+    });
+    expect(report.steps[1].delta.lowerBound).toBe(1);
+    expect(report.steps[2].delta.lowerBound).toBe(-1);
+    expect(report.after).toEqual(measure_progress(solved_cube));
+    expect(report.delta).toEqual(report.steps[0].delta);
+    expect(trace_progress(solved_cube, []).delta).toEqual(unchanged);
+  });
+});
@@ -0,0 +1,84 @@
+// progress.ts
+//
+// Scores a cube on how close it is to solved, so an experiment can tell whether a move helped. The counts
+// of solved and misoriented pieces are easy to read but can get worse on the way to a solution; the lower
+// bound comes from the solver's pattern databases and never overestimates the moves still needed.
+
+import { apply_moves_to_cube, apply_single_move_to_cube, find_upright_rotation } from "./rubiksCube";
+import type { Cube } from "./rubiksCube";
+import { cube_to_cubies } from "./cubieCube";
+import { assert_valid_cube } from "./cubeValidation";
+import { distance_lower_bound } from "./twoPhaseSolver";
+
+export type CubeProgress = {
+  // Pieces in their own position and oriented, out of 8 corners and 12 edges
+  solvedCorners: number;
+  solvedEdges: number;
+  // Corners twisted relative to U/D, and edges flipped so they need an odd number of F or B quarter turns
+  misorientedCorners: number;
+  misorientedEdges: number;
+  // No solution in face turns (R, U2, F', ...) is shorter than this
+  lowerBound: number;
+};
+
+// How much each metric changed: positive when it went up
+export type ProgressDelta = CubeProgress;
+
+export type ProgressReport = {
+  before: CubeProgress;
+  after: CubeProgress;
+  delta: ProgressDelta;
+  // The change made by each move, in order
+  steps: { move: string; delta: ProgressDelta }[];
+};
+
+const count = (values: number[], test: (value: number, i: number) => boolean) => values.filter(test).length;
+
+/**
+ * Scores a cube in the default colors. A cube held in any orientation is scored as if it were turned upright.
+ * @throws InvalidCubeError if the cube cannot be solved at all
+ */
+export function measure_progress(cube: Readonly<Cube>): CubeProgress {
+  assert_valid_cube(cube);
+  const cubies = cube_to_cubies(apply_moves_to_cube(cube, find_upright_rotation(cube)!));
+
+  const solvedCorners = count(cubies.cp, (piece, i) => piece === i && cubies.co[i] === 0);
+  const solvedEdges = count(cubies.ep, (piece, i) => piece === i && cubies.eo[i] === 0);
+  const solved = solvedCorners === 8 && solvedEdges === 12;
+  return {
+    solvedCorners,
+    solvedEdges,
+    misorientedCorners: count(cubies.co, (twist) => twist !== 0),
+    misorientedEdges: count(cubies.eo, (flip) => flip !== 0),
+    // The pattern databases only see orientation and the E slice, so they can say 0 for an unsolved cube
+    lowerBound: solved ? 0 : Math.max(1, distance_lower_bound(cubies)),
+  };
+}
+
+export function progress_delta(before: CubeProgress, after: CubeProgress): ProgressDelta {
+  return {
+    solvedCorners: after.solvedCorners - before.solvedCorners,
+    solvedEdges: after.solvedEdges - before.solvedEdges,
+    misorientedCorners: after.misorientedCorners - before.misorientedCorners,
+    misorientedEdges: after.misorientedEdges - before.misorientedEdges,
+    lowerBound: after.lowerBound - before.lowerBound,
+  };
+}
+
+/**
+ * Scores a cube before a sequence of moves, after it, and after each move along the way.
+ * @throws InvalidCubeError if the cube cannot be solved at all
+ */
+export function trace_progress(cube: Readonly<Cube>, moves: readonly string[]): ProgressReport {
+  const before = measure_progress(cube);
+  let current = [...cube];
+  let previous = before;
+  const steps = moves.map((move) => {
+    current = apply_single_move_to_cube(current, move);
+    const progress = measure_progress(current);
+    const delta = progress_delta(previous, progress);
+    previous = progress;
+    return { move, delta };
+  });
+  return { before, after: previous, delta: progress_delta(before, previous), steps };
+}
@@ -0,0 +1,74 @@
+import { get_puzzle, puzzle_ids } from "./puzzleRegistry";
+import { RubiksCube, random_move_scramble } from "./rubiksCube";
+import { apply_puzzle_moves, is_puzzle_solved, random_puzzle_scramble } from "./twistyPuzzle";
+import { seeded_random } from "./random";
+
+// How many stickers a move takes somewhere else
+function moved(id: string, move: string): number {
+  return get_puzzle(id)
+    .permutations.get(move)!
+    .filter((from, i) => from !== i).length;
+}
+
+describe("Puzzle registry", () => {
+  test("should compile every puzzle it lists", () => {
+    for (const id of puzzle_ids) {
+      const puzzle = get_puzzle(id);
+      expect(puzzle.definition.id).toBe(id);
+      expect(is_puzzle_solved(puzzle, puzzle.definition.solved)).toBe(true);
+    }
+    expect(() => get_puzzle("megaminx")).toThrow("Unknown puzzle: megaminx (the puzzles are 3x3x3, pyraminx, skewb)");
+  });
+
+  test("the 3x3x3 definition should turn the cube like the cube engine", () => {
+    const puzzle = get_puzzle("3x3x3");
+    const random = seeded_random(15);
+    for (let i = 0; i < 10; i++) {
+      const moves = [...random_move_scramble(20, random), "M2", "E'", "S", "x", "y'", "z2"];
+      const cube = apply_puzzle_moves(puzzle, puzzle.definition.solved, moves);
+      expect(cube).toEqual(new RubiksCube(moves.join(" ")).getCurrentState());
+    }
+  });
+
+  test("Pyraminx and Skewb moves should come back after three turns", () => {
+    for (const id of ["pyraminx", "skewb"]) {
+      const puzzle = get_puzzle(id);
+      for (const move of Object.keys(puzzle.definition.moves)) {
+        const once = apply_puzzle_moves(puzzle, puzzle.definition.solved, [move]);
+        expect(is_puzzle_solved(puzzle, once)).toBe(false);
+        expect(apply_puzzle_moves(puzzle, puzzle.definition.solved, [move, move, move])).toEqual(
+          puzzle.definition.solved
+        );
+        expect(apply_puzzle_moves(puzzle, once, [`${move}'`])).toEqual(puzzle.definition.solved);
+        expect(puzzle.permutations.has(`${move}2`)).toBe(false);
+      }
+    }
+  });
+
+  test("should move the stickers of the layer being turned", () => {
+    expect(moved("pyraminx", "U")).toBe(12);
+    expect(moved("pyraminx", "u")).toBe(3);
+    expect(moved("skewb", "R")).toBe(15);
+  });
+
+  test("a Pyraminx tip and its layer should turn the same way", () => {
+    const pyraminx = get_puzzle("pyraminx");
+    // Turning the layer one way and the tip back leaves the tip's stickers where they were
+    for (const [layer, tip] of [
+      ["U", "u"],
+      ["L", "l"],
+      ["R", "r"],
+      ["B", "b"],
+    ]) {
+      const state = apply_puzzle_moves(pyraminx, pyraminx.definition.solved, [layer, `${tip}'`]);
+      const permutation = pyraminx.permutations.get(tip)!;
+      expect(permutation.every((from, i) => from === i || state[i] === pyraminx.definition.solved[i])).toBe(true);
+    }
+  });
+
+  test("scrambles should use each puzzle's moves", () => {
+    const skewb = get_puzzle("skewb");
+    const scramble = random_puzzle_scramble(skewb, 11, seeded_random(2));
+    expect(scramble.every((move) => /^[RULB]'?$/.test(move))).toBe(true);
+  });
+});
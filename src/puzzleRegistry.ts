@@ -0,0 +1,131 @@
+// puzzleRegistry.ts
+//
+// The puzzles the agent can host besides cubes of any size, written as definitions for the generic engine in
+// twistyPuzzle.ts. The 3x3x3 is here too, with its moves taken from the cube's own move tables, so the two
+// engines can be checked against each other.
+
+import { default_color_scheme } from "./colorScheme";
+import { move_permutation } from "./nxnCube";
+import { solved_cube } from "./rubiksCube";
+import { compile_puzzle, permutation_to_cycles } from "./twistyPuzzle";
+import type { Puzzle, PuzzleDefinition } from "./twistyPuzzle";
+
+const cube_faces = ["U", "R", "F", "D", "L", "B"] as const;
+
+export const cube_definition: PuzzleDefinition = {
+  id: "3x3x3",
+  name: "3x3x3 cube",
+  faces: cube_faces.map((name) => ({ name, stickers: 9 })),
+  solved: [...solved_cube],
+  moves: Object.fromEntries(
+    ["U", "R", "F", "D", "L", "B", "M", "E", "S", "x", "y", "z"].map((move) => [
+      move,
+      permutation_to_cycles(move_permutation(3, move)),
+    ])
+  ),
+};
+
+// Each face is drawn with one corner at the top and numbered row by row, left to right: 1 sticker, then 3,
+// then 5, alternating between triangles that point up and down. F, R and L are seen from the front with
+// the U corner at the top, and D from below with the back corner at the top and R on its left. The layer
+// moves turn clockwise as seen looking at their corner; the lowercase moves turn only the tip.
+export const pyraminx_definition: PuzzleDefinition = {
+  id: "pyraminx",
+  name: "Pyraminx",
+  faces: ["F", "R", "L", "D"].map((name) => ({ name, stickers: 9 })),
+  solved: ["G", "B", "R", "Y"].flatMap((color) => Array(9).fill(color)),
+  moves: {
+    U: [
+      [0, 18, 9],
+      [1, 19, 10],
+      [2, 20, 11],
+      [3, 21, 12],
+    ],
+    L: [
+      [1, 33, 24],
+      [4, 35, 26],
+      [5, 34, 25],
+      [6, 30, 21],
+    ],
+    R: [
+      [3, 15, 33],
+      [6, 10, 28],
+      [7, 14, 32],
+      [8, 13, 31],
+    ],
+    B: [
+      [12, 24, 28],
+      [15, 19, 30],
+      [16, 23, 29],
+      [17, 22, 27],
+    ],
+    u: [[0, 18, 9]],
+    l: [[4, 35, 26]],
+    r: [[8, 13, 31]],
+    b: [[17, 22, 27]],
+  },
+};
+
+// The faces are in the same order and drawn the same way as the cube's: the center first, then the four
+// corners top left, top right, bottom left and bottom right. Each move turns half the puzzle around one
+// corner, clockwise as seen looking at it: R around DRB, U around UBL, L around DLF and B around DBL.
+export const skewb_definition: PuzzleDefinition = {
+  id: "skewb",
+  name: "Skewb",
+  faces: cube_faces.map((name) => ({ name, stickers: 5 })),
+  solved: cube_faces.flatMap((face) => Array(5).fill(default_color_scheme.faces[face])),
+  moves: {
+    R: [
+      [2, 23, 14],
+      [5, 25, 15],
+      [7, 29, 17],
+      [8, 26, 18],
+      [9, 28, 19],
+    ],
+    U: [
+      [0, 20, 25],
+      [1, 21, 27],
+      [2, 22, 29],
+      [3, 23, 26],
+      [7, 11, 18],
+    ],
+    L: [
+      [3, 8, 29],
+      [10, 15, 20],
+      [11, 17, 23],
+      [13, 16, 24],
+      [14, 18, 22],
+    ],
+    B: [
+      [1, 13, 9],
+      [15, 25, 20],
+      [16, 28, 21],
+      [18, 29, 23],
+      [19, 27, 24],
+    ],
+  },
+};
+
+export const puzzle_definitions = [cube_definition, pyraminx_definition, skewb_definition];
+
+export const puzzle_ids = ["3x3x3", "pyraminx", "skewb"] as const;
+export type PuzzleId = (typeof puzzle_ids)[number];
+
+const compiled = new Map<string, Puzzle>();
+
+/**
+ * The compiled puzzle with the given id. Each puzzle is compiled the first time it is asked for.
+ * @throws Error if there is no puzzle with that id
+ */
+export function get_puzzle(id: string): Puzzle {
+  let puzzle = compiled.get(id);
+  if (!puzzle) {
+    const definition = puzzle_definitions.find((definition) => definition.id === id);
+    if (!definition) {
+      throw new Error(`Unknown puzzle: ${id} (the puzzles are ${puzzle_ids.join(", ")})`);
+    }
+    puzzle = compile_puzzle(definition);
+    compiled.set(id, puzzle);
+  }
+  return puzzle;
+}
@@ -0,0 +1,26 @@
+// random.ts
+
+// A source of random numbers in [0, 1), like Math.random
+export type Random = () => number;
+
+/**
+ * Returns a random number generator that always produces the same numbers for the same seed,
+ * so anything drawn from it can be reproduced (mulberry32).
+ */
+export function seeded_random(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Picks a new seed for seeded_random.
+ */
+export function random_seed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
@@ -1,5 +1,8 @@
-import { RubiksCube } from "./rubiksCube";
+import { RubiksCube, random_move_scramble, solved_cube } from "./rubiksCube";
 import type { Face } from "./rubiksCube";
+import { MoveNotationError } from "./moveNotation";
+import { seeded_random } from "./random";
+import { default_color_scheme, solved_cube_for } from "./colorScheme";
 
 describe("RubiksCube", () => {
   let cube: RubiksCube;
@@ -171,12 +174,124 @@ describe("RubiksCube", () => {
     expect(cube.getStickerAt("B", 3)).toBe("B");
   });
 
+  test("should apply a single M slice move in the direction of L", () => {
+    cube.applyMoveSequence("M");
+    expect(cube.isSolved()).toBe(false);
+    expect(cube.getMoveHistory()).toEqual(["M"]);
+    expect(cube.getStickerAt("U", 2)).toBe("G");
+    expect(cube.getStickerAt("U", 5)).toBe("G");
+    expect(cube.getStickerAt("U", 8)).toBe("G");
+    expect(cube.getStickerAt("F", 2)).toBe("Y");
+    expect(cube.getStickerAt("F", 5)).toBe("Y");
+    expect(cube.getStickerAt("F", 8)).toBe("Y");
+    expect(cube.getStickerAt("F", 1)).toBe("B");
+    expect(cube.getStickerAt("F", 3)).toBe("B");
+  });
+
+  test("should apply a single E slice move in the direction of D", () => {
+    cube.applyMoveSequence("E");
+    expect(cube.getStickerAt("F", 4)).toBe("O");
+    expect(cube.getStickerAt("F", 5)).toBe("O");
+    expect(cube.getStickerAt("F", 6)).toBe("O");
+    expect(cube.getStickerAt("R", 5)).toBe("B");
+    expect(cube.getStickerAt("F", 1)).toBe("B");
+  });
+
+  test("should apply a single S slice move in the direction of F", () => {
+    cube.applyMoveSequence("S");
+    expect(cube.getStickerAt("U", 4)).toBe("O");
+    expect(cube.getStickerAt("U", 5)).toBe("O");
+    expect(cube.getStickerAt("U", 6)).toBe("O");
+    expect(cube.getStickerAt("R", 2)).toBe("Y");
+    expect(cube.getStickerAt("R", 5)).toBe("Y");
+    expect(cube.getStickerAt("R", 8)).toBe("Y");
+  });
+
+  test("wide moves should match the face turn combined with the slice turn", () => {
+    const equivalents: [string, string][] = [
+      ["r", "R M'"],
+      ["Rw", "R M'"],
+      ["2Rw", "R M'"],
+      ["l", "L M"],
+      ["u", "U E'"],
+      ["d'", "D' E'"],
+      ["f2", "F2 S2"],
+      ["Bw", "B S'"],
+    ];
+    equivalents.forEach(([wide, expanded]) => {
+      expect(new RubiksCube(wide).getCurrentState()).toEqual(new RubiksCube(expanded).getCurrentState());
+    });
+  });
+
+  test("rotations should turn every layer of the cube", () => {
+    const rotations: [string, string][] = [
+      ["x", "R M' L'"],
+      ["y", "U E' D'"],
+      ["z", "F S B'"],
+      ["x'", "R' M L"],
+      ["y2", "U2 E2 D2"],
+      ["3Rw", "x"],
+      ["3Lw", "x'"],
+      ["3Dw2", "y2"],
+    ];
+    rotations.forEach(([rotation, expanded]) => {
+      expect(new RubiksCube(rotation).getCurrentState()).toEqual(new RubiksCube(expanded).getCurrentState());
+    });
+
+    const rotated = new RubiksCube("x");
+    expect(rotated.getStickerAt("U", 5)).toBe("B");
+    expect(rotated.getStickerAt("F", 5)).toBe("W");
+    expect(new RubiksCube("y").getStickerAt("F", 5)).toBe("R");
+    expect(new RubiksCube("z").getStickerAt("U", 5)).toBe("O");
+  });
+
+  test("slice, wide and rotation moves should support every modifier", () => {
+    ["M", "E", "S", "r", "Uw", "x", "y", "z"].forEach((move) => {
+      expect(new RubiksCube(`${move} ${move}'`).isSolved()).toBe(true);
+      expect(new RubiksCube(`${move}2 ${move}2`).isSolved()).toBe(true);
+      expect(new RubiksCube(`${move}2' ${move}2`).isSolved()).toBe(true);
+      expect(new RubiksCube(`${move} ${move} ${move} ${move}`).isSolved()).toBe(true);
+      // A rotation only turns the solved cube around, so it stays solved
+      expect(new RubiksCube(move).isSolved()).toBe("xyz".includes(move));
+    });
+  });
+
+  test("the H-perm written with M moves should only affect the last layer", () => {
+    const hPerm = new RubiksCube("M2 U M2 U2 M2 U M2");
+    expect(hPerm.getStickerAt("F", 2)).toBe("G");
+    expect(hPerm.getStickerAt("B", 2)).toBe("B");
+    expect(hPerm.getStickerAt("R", 2)).toBe("O");
+    expect(hPerm.getStickerAt("L", 2)).toBe("R");
+
+    const faces: Face[] = ["R", "F", "L", "B"];
+    faces.forEach((face) => {
+      for (let i = 4; i <= 9; i++) {
+        expect(hPerm.getStickerAt(face, i)).toBe(new RubiksCube().getStickerAt(face, i));
+      }
+    });
+  });
+
   test("should parse complex move sequences", () => {
     cube.applyMoveSequence("R U R' U' F2 B'");
     expect(cube.getMoveHistory()).toEqual(["R", "U", "R'", "U'", "F2", "B'"]);
     expect(cube.isSolved()).toBe(false);
   });
 
+  test("should expand grouping syntax into single moves", () => {
+    cube.applyMoveSequence("(R U R' U')6");
+    expect(cube.getMoveHistory().length).toBe(24);
+    expect(cube.isSolved()).toBe(true);
+
+    cube.applyMoveSequence("[R, U]");
+    expect(cube.getMoveHistory().slice(24)).toEqual(["R", "U", "R'", "U'"]);
+  });
+
+  test("should reject invalid notation without applying any moves", () => {
+    cube.applyMoveSequence("R");
+    expect(() => cube.applyMoveSequence("U RxU")).toThrow(MoveNotationError);
+    expect(cube.getMoveHistory()).toEqual(["R"]);
+  });
+
   test("rotating any same side 4 times should return to solved state", () => {
     const faces: Face[] = ["R", "L", "U", "D", "F", "B"];
     faces.forEach((face) => {
@@ -380,4 +495,63 @@ describe("RubiksCube", () => {
     cube.applyMoveSequence("R U R' U' R U R' U' R U R' U' R U R' U'"); // Complete the 6 cycles
     expect(cube.isSolved()).toBe(true);
   });
+  test("scramble should apply the requested number of moves", () => {
+    cube.applyMoveSequence("R U");
+    cube.scramble(30);
+    expect(cube.getMoveHistory().length).toBe(30);
+  });
+
+  test("scramble should be reproducible from a seed", () => {
+    cube.scramble(25, seeded_random(42));
+    const other = new RubiksCube();
+    other.scramble(25, seeded_random(42));
+    expect(other.getMoveHistory()).toEqual(cube.getMoveHistory());
+  });
+
+  test("random-move scrambles should never turn a face twice before the axis changes", () => {
+    const axis = (move: string) => "UD RL FB".split(" ").findIndex((faces) => faces.includes(move[0]));
+    const moves = random_move_scramble(2000, seeded_random(7));
+    moves.forEach((move, i) => {
+      let j = i - 1;
+      while (j >= 0 && axis(moves[j]) === axis(move)) {
+        expect(moves[j][0]).not.toBe(move[0]);
+        j--;
+      }
+    });
+  });
+
+  test("isSolved should accept a solved cube held in any orientation", () => {
+    ["x", "y2", "z'", "x y", "x2 z", "M E' S2 R L'"].forEach((sequence) => {
+      expect(new RubiksCube(sequence).isSolved()).toBe(!sequence.startsWith("M"));
+    });
+    expect(new RubiksCube("x R").isSolved()).toBe(false);
+  });
+
+  test("getCurrentState should return a copy the caller cannot use to change the cube", () => {
+    cube.applyMoveSequence("R");
+    const state = cube.getCurrentState();
+    state.fill("W");
+    expect(cube.getStickerAt("U", 9)).toBe("B");
+    expect(cube.getCurrentState()).toEqual(new RubiksCube("R").getCurrentState());
+  });
+
+  test("a failed sequence should leave the state as it was", () => {
+    const cube4 = new RubiksCube(undefined, solved_cube_for(default_color_scheme, 4));
+    cube4.applyMoveSequence("Rw U");
+    const before = cube4.getCurrentState();
+    expect(() => cube4.applyMoveSequence("R U M")).toThrow("Invalid move on a 4x4x4 cube: M");
+    expect(cube4.getCurrentState()).toEqual(before);
+    expect(cube4.getMoveHistory()).toEqual(["Rw", "U"]);
+  });
+
+  test("restore should pick up a cube where it left off without replaying its moves", () => {
+    cube.applyMoveSequence("R U R' U'");
+    const restored = RubiksCube.restore(solved_cube, cube.getMoveHistory(), cube.getCurrentState());
+    expect(restored.getMoveHistory()).toEqual(["R", "U", "R'", "U'"]);
+    restored.applyMoveSequence("(R U R' U')5");
+    expect(restored.isSolved()).toBe(true);
+    expect(() => RubiksCube.restore(solved_cube, [], solved_cube_for(default_color_scheme, 2))).toThrow(
+      "not a 3x3x3 cube"
+    );
+  });
 });
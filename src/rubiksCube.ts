@@ -1,37 +1,23 @@
 // rubiksCube.ts
 
+import { parse_moves } from "./moveNotation";
+import type { Random } from "./random";
+import { default_color_scheme, solved_cube_for } from "./colorScheme";
+import { apply_move_to_nxn_cube, apply_permutation, cube_size, sequence_permutation, sticker_index } from "./nxnCube";
+
 export type Color = "W" | "Y" | "B" | "G" | "R" | "O"; // White, Yellow, Blue, Green, Red, Orange
 export type Face = "U" | "D" | "F" | "B" | "L" | "R"; // Up, Down, Front, Back, Left, Right
 
 export type Sticker = Color;
 export type FaceState = Sticker[]; // array of stickers
 
-// A cube is an array of 9 * 6 = 54 stickers
+// A cube is an array of 9 * 6 = 54 stickers, or size * size * 6 for cubes of other sizes
 // The order is [U, R, F, D, L, B]
 export type Cube = Sticker[];
 
-function map_face_to_initial_sticker(face: Face): Sticker {
-  switch (face) {
-    case "U":
-      return "Y";
-    case "D":
-      return "W";
-    case "F":
-      return "B";
-    case "B":
-      return "G";
-    case "L":
-      return "O";
-    case "R":
-      return "R";
-  }
-}
+export const solved_cube: Cube = solved_cube_for(default_color_scheme);
 
-export const solved_cube: Cube = (["U", "R", "F", "D", "L", "B"] as Face[])
-  .map((s) => map_face_to_initial_sticker(s).repeat(9).split(""))
-  .flat() as Cube;
-
-// S(F, 4) will refer to the 4th facelet on the F face (FL), counting from top to bottom, left to right
+// S(F, 4) will refer to the 4th facelet on the F face (FL) of a 3x3, counting from top to bottom, left to right
 // The mapping assumes the cube is "unrolled" with the Front face (F) towards you:
 //
 //                 +--+--+--+
@@ -57,123 +43,103 @@ export function S(f: Face, i: number): number {
   return "URFDLB".indexOf(f) * 9 + i - 1;
 }
 
-function perm_from_cycle(cycle: number[]) {
-  let perms = [];
-  for (let i = 0; i < cycle.length - 1; i++) {
-    perms.push([cycle[i], cycle[i + 1]]);
-  }
-  perms.push([cycle[cycle.length - 1], cycle[0]]);
-  return perms;
+/**
+ * Applies a single move in standard notation to a cube of any size, worked out from its number of stickers.
+ * @throws Error if the move is not valid notation, or turns a layer the cube does not have
+ */
+export function apply_single_move_to_cube(cube: Cube, move: string): Cube {
+  return apply_move_to_nxn_cube(cube, move);
 }
 
-const u_move = [
-  perm_from_cycle([S("U", 1), S("U", 3), S("U", 9), S("U", 7)]),
-  perm_from_cycle([S("U", 2), S("U", 6), S("U", 8), S("U", 4)]),
-  perm_from_cycle([S("F", 1), S("L", 1), S("B", 1), S("R", 1)]),
-  perm_from_cycle([S("F", 2), S("L", 2), S("B", 2), S("R", 2)]),
-  perm_from_cycle([S("F", 3), S("L", 3), S("B", 3), S("R", 3)]),
-].flat();
-
-const r_move = [
-  perm_from_cycle([S("R", 1), S("R", 3), S("R", 9), S("R", 7)]),
-  perm_from_cycle([S("R", 2), S("R", 6), S("R", 8), S("R", 4)]),
-  perm_from_cycle([S("U", 9), S("B", 1), S("D", 9), S("F", 9)]),
-  perm_from_cycle([S("U", 6), S("B", 4), S("D", 6), S("F", 6)]),
-  perm_from_cycle([S("U", 3), S("B", 7), S("D", 3), S("F", 3)]),
-].flat();
-
-const f_move = [
-  perm_from_cycle([S("F", 1), S("F", 3), S("F", 9), S("F", 7)]),
-  perm_from_cycle([S("F", 2), S("F", 6), S("F", 8), S("F", 4)]),
-  perm_from_cycle([S("U", 7), S("R", 1), S("D", 3), S("L", 9)]),
-  perm_from_cycle([S("U", 8), S("R", 4), S("D", 2), S("L", 6)]),
-  perm_from_cycle([S("U", 9), S("R", 7), S("D", 1), S("L", 3)]),
-].flat();
-
-const b_move = [
-  perm_from_cycle([S("B", 1), S("B", 3), S("B", 9), S("B", 7)]),
-  perm_from_cycle([S("B", 2), S("B", 6), S("B", 8), S("B", 4)]),
-  perm_from_cycle([S("U", 1), S("L", 7), S("D", 9), S("R", 3)]),
-  perm_from_cycle([S("U", 2), S("L", 4), S("D", 8), S("R", 6)]),
-  perm_from_cycle([S("U", 3), S("L", 1), S("D", 7), S("R", 9)]),
-].flat();
-
-const l_move = [
-  perm_from_cycle([S("L", 1), S("L", 3), S("L", 9), S("L", 7)]),
-  perm_from_cycle([S("L", 2), S("L", 6), S("L", 8), S("L", 4)]),
-  perm_from_cycle([S("U", 1), S("F", 1), S("D", 1), S("B", 9)]),
-  perm_from_cycle([S("U", 4), S("F", 4), S("D", 4), S("B", 6)]),
-  perm_from_cycle([S("U", 7), S("F", 7), S("D", 7), S("B", 3)]),
-].flat();
+/**
+ * Applies a sequence of moves in one pass, composing their permutations first.
+ * @throws Error if a move is not valid notation, or turns a layer the cube does not have
+ */
+export function apply_moves_to_cube(cube: Readonly<Cube>, moves: readonly string[]): Cube {
+  return apply_permutation(cube, sequence_permutation(cube_size(cube), moves));
+}
 
-const d_move = [
-  perm_from_cycle([S("D", 1), S("D", 3), S("D", 9), S("D", 7)]),
-  perm_from_cycle([S("D", 2), S("D", 6), S("D", 8), S("D", 4)]),
-  perm_from_cycle([S("F", 7), S("R", 7), S("B", 7), S("L", 7)]),
-  perm_from_cycle([S("F", 8), S("R", 8), S("B", 8), S("L", 8)]),
-  perm_from_cycle([S("F", 9), S("R", 9), S("B", 9), S("L", 9)]),
-].flat();
+// Rotations that reach each of the 24 ways a cube can be held:
+// one of six faces on top, then one of four faces in front
+export const whole_cube_orientations: string[][] = [[], ["x"], ["x2"], ["x'"], ["z"], ["z'"]].flatMap((top) =>
+  [[], ["y"], ["y2"], ["y'"]].map((front) => [...top, ...front])
+);
+
+/**
+ * Finds the whole-cube rotation that puts every center back in its solved position.
+ * Returns null if the centers are not arranged like the centers of any solved cube.
+ */
+export function find_upright_rotation(cube: Readonly<Cube>): string[] | null {
+  const centers = (["U", "R", "F", "D", "L", "B"] as Face[]).map((face) => S(face, 5));
+  return (
+    whole_cube_orientations.find((rotation) => {
+      const rotated = apply_moves_to_cube(cube, rotation);
+      return centers.every((i) => rotated[i] === solved_cube[i]);
+    }) ?? null
+  );
+}
 
-function apply_move(cube: Cube, perm: number[][]): Cube {
-  let new_cube = [...cube];
-  for (let x of perm) {
-    new_cube[x[1]] = cube[x[0]];
+const face_axes: Record<Face, number> = { U: 0, D: 0, R: 1, L: 1, F: 2, B: 2 };
+
+/**
+ * Draws random turns of the outer layers, never turning the same layers twice before the axis changes,
+ * so no two moves cancel or merge (R R', R L R, ...). Cubes bigger than 3x3 also get wide turns
+ * ("Rw", "3Rw") reaching up to the middle of the cube.
+ * @param random - Where the randomness comes from (default: Math.random)
+ * @param size - Size of the cube to scramble (default: 3)
+ */
+export function random_move_scramble(numMoves: number, random: Random = Math.random, size: number = 3): string[] {
+  const faces = ["U", "R", "F", "D", "L", "B"] as Face[];
+  const modifiers = ["", "'", "2"];
+  const depths = Array.from({ length: Math.max(1, Math.floor(size / 2)) }, (_, i) => i + 1);
+  const moves: string[] = [];
+  // The layers turned since the axis last changed, as a face and depth like "R2"
+  let run: string[] = [];
+
+  while (moves.length < numMoves) {
+    const face = faces[Math.floor(random() * faces.length)];
+    const depth = depths[Math.floor(random() * depths.length)];
+    if (run.includes(`${face}${depth}`)) {
+      continue;
+    }
+    if (run.length > 0 && face_axes[run[0][0] as Face] !== face_axes[face]) {
+      run = [];
+    }
+    run.push(`${face}${depth}`);
+    const layers = depth === 1 ? face : depth === 2 ? `${face}w` : `${depth}${face}w`;
+    moves.push(`${layers}${modifiers[Math.floor(random() * modifiers.length)]}`);
   }
-  //perm.forEach( ([src, dst]) => new_cube[dst] = cube[src] );
-  return new_cube;
+
+  return moves;
 }
 
-function apply_single_move_to_cube(cube: Cube, move: string): Cube {
-  // To implement CCW moves, we can rotate the cube 3 times
-  switch (move) {
-    case "U":
-      return apply_move(cube, u_move);
-    case "U2":
-      return apply_move(apply_move(cube, u_move), u_move);
-    case "U'":
-      return apply_move(apply_move(apply_move(cube, u_move), u_move), u_move);
-    case "D":
-      return apply_move(cube, d_move);
-    case "D2":
-      return apply_move(apply_move(cube, d_move), d_move);
-    case "D'":
-      return apply_move(apply_move(apply_move(cube, d_move), d_move), d_move);
-    case "F":
-      return apply_move(cube, f_move);
-    case "F2":
-      return apply_move(apply_move(cube, f_move), f_move);
-    case "F'":
-      return apply_move(apply_move(apply_move(cube, f_move), f_move), f_move);
-    case "B":
-      return apply_move(cube, b_move);
-    case "B2":
-      return apply_move(apply_move(cube, b_move), b_move);
-    case "B'":
-      return apply_move(apply_move(apply_move(cube, b_move), b_move), b_move);
-    case "L":
-      return apply_move(cube, l_move);
-    case "L2":
-      return apply_move(apply_move(cube, l_move), l_move);
-    case "L'":
-      return apply_move(apply_move(apply_move(cube, l_move), l_move), l_move);
-    case "R":
-      return apply_move(cube, r_move);
-    case "R2":
-      return apply_move(apply_move(cube, r_move), r_move);
-    case "R'":
-      return apply_move(apply_move(apply_move(cube, r_move), r_move), r_move);
-    default:
-      throw new Error(`Invalid move: ${move}`);
+export function is_solved_cube(cube: Readonly<Cube>): boolean {
+  const area = cube.length / 6;
+  if (!Number.isInteger(Math.sqrt(area)) || area === 0) {
+    return false;
   }
+  return [0, 1, 2, 3, 4, 5].every((face) =>
+    cube.slice(face * area, (face + 1) * area).every((sticker) => sticker === cube[face * area])
+  );
 }
 
 export class RubiksCube {
   private moveHistory: string[] = [];
+  // The state after every move in moveHistory, kept up to date as moves are applied so it is never replayed
+  private currentState: Cube;
   // Make initial state truly readonly from outside
   public readonly initialState: Readonly<Cube>;
+  // Number of layers along each edge, 3 for a standard cube
+  public readonly size: number;
 
+  /**
+   * @param initialState - The starting stickers; its length sets the size of the cube (default: a solved 3x3)
+   * @throws Error if the initial state is not a whole cube, or a move turns a layer it does not have
+   */
   constructor(initialMoves?: string, initialState: Cube = solved_cube) {
     this.initialState = initialState;
+    this.size = cube_size(initialState);
+    this.currentState = [...initialState];
     if (initialMoves) {
       this.applyMoveSequence(initialMoves);
     }
@@ -181,55 +147,54 @@ export class RubiksCube {
 
   /**
    * Applies a sequence of moves described in standard notation.
-   * @param sequence - A string like "R U R' U'"
+   * @param sequence - A string like "R U R' U'", "(R U R' U')3" or "[R, U]"
+   * @throws MoveNotationError if the sequence is not valid notation; no moves are applied
+   * @throws Error if a move turns a layer this cube does not have ("M" on a 4x4, "3R" on a 2x2); no moves are applied
    */
   applyMoveSequence(sequence: string): void {
-    // Regex to match valid moves: R, U', F2 etc. Handles spaces correctly.
-    const moves = sequence.trim().match(/([RLUDFB])(['2]?)/g);
-    if (moves) {
-      // Filter out any potential null/empty matches if regex/string is weird
-      this.moveHistory.push(...moves.filter((m) => m));
-    } else if (sequence.trim() !== "") {
-      console.warn(`Could not parse move sequence: "${sequence}"`);
-    }
+    const moves = parse_moves(sequence);
+    // The whole sequence becomes one permutation, so a long sequence costs a single pass over the stickers
+    this.currentState = apply_permutation(this.currentState, sequence_permutation(this.size, moves));
+    this.moveHistory.push(...moves);
   }
 
   /**
-   * Get the current state of the cube by applying all moves from history.
-   * @returns The calculated CubeState.
+   * Recreates a cube whose current state is already known, without replaying its history.
+   * The caller is trusted that currentState is what the moves make of initialState.
    */
-  getCurrentState(): Cube {
-    // Start with a deep copy of the initial state
-    // let currentState = deepCopyState(this.initialState as CubeState); // Cast needed as deepCopy expects mutable
-    let cube = [...this.initialState];
-    for (const move of this.moveHistory) {
-      cube = apply_single_move_to_cube(cube, move);
+  static restore(initialState: Cube, moveHistory: readonly string[], currentState: Cube): RubiksCube {
+    const cube = new RubiksCube(undefined, initialState);
+    if (cube_size(currentState) !== cube.size) {
+      throw new Error(`The current state is not a ${cube.size}x${cube.size}x${cube.size} cube`);
     }
+    cube.moveHistory = [...moveHistory];
+    cube.currentState = [...currentState];
     return cube;
   }
 
   /**
-   * Checks if the cube is currently in the solved state.
+   * Get the current state of the cube.
+   * @returns A copy of the state, which the caller may change freely.
+   */
+  getCurrentState(): Cube {
+    return [...this.currentState];
+  }
+
+  /**
+   * Checks if the cube is currently in the solved state, held in any orientation and in any color scheme:
+   * every face shows a single color.
    * @returns True if solved, false otherwise.
    */
   isSolved(): boolean {
-    let currentState = this.getCurrentState();
-
-    if (currentState.length !== solved_cube.length) {
-      return false;
-    }
-
-    for (let i = 0; i < currentState.length; i++) {
-      if (currentState[i] !== solved_cube[i]) {
-        return false;
-      }
-    }
-
-    return true;
+    return is_solved_cube(this.currentState);
   }
 
+  /**
+   * @param i - Position on the face, numbered from 1 across the rows as S() does on a 3x3
+   */
   getStickerAt(face: Face, i: number): Sticker {
-    return this.getCurrentState()[S(face, i)];
+    const row = Math.floor((i - 1) / this.size);
+    return this.currentState[sticker_index(this.size, face, row, (i - 1) % this.size)];
   }
 
   /**
@@ -237,29 +202,18 @@ export class RubiksCube {
    */
   reset(): void {
     this.moveHistory = [];
+    this.currentState = [...this.initialState];
   }
 
   /**
    * Applies a random sequence of moves to scramble the cube.
    * Clears the current history before scrambling.
    * @param numMoves - The number of random moves to apply (default: 25).
+   * @param random - Where the randomness comes from; pass seeded_random(seed) to get the same scramble again.
    */
-  scramble(numMoves: number = 25): void {
+  scramble(numMoves: number = 25, random: Random = Math.random): void {
     this.reset(); // Start from a solved state for scrambling
-
-    const faces = ["U", "R", "F", "D", "L", "B"] as Face[];
-    const modifiers = ["", "'", "2"];
-    let lastFace: Face | null = null;
-    const randomMoves: string[] = [];
-
-    for (let i = 0; i < numMoves; i++) {
-      const randomFace: Face = faces[Math.floor(Math.random() * faces.length)];
-      const randomModifier = modifiers[Math.floor(Math.random() * modifiers.length)];
-      randomMoves.push(`${randomFace}${randomModifier}`);
-      lastFace = randomFace;
-    }
-
-    this.applyMoveSequence(randomMoves.join(" "));
+    this.applyMoveSequence(random_move_scramble(numMoves, random, this.size).join(" "));
   }
 
   /**
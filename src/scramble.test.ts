@@ -0,0 +1,59 @@
+import { generate_scramble, random_cubies } from "./scramble";
+import { seeded_random } from "./random";
+import { cube_to_cubies, cubies_to_cube } from "./cubieCube";
+import { validate_cube } from "./cubeValidation";
+import { RubiksCube } from "./rubiksCube";
+import { default_color_scheme, solved_cube_for } from "./colorScheme";
+import { get_puzzle } from "./puzzleRegistry";
+
+describe("Scrambles", () => {
+  test("a seeded random number generator should repeat itself", () => {
+    const a = seeded_random(123);
+    const b = seeded_random(123);
+    const numbers = Array.from({ length: 10 }, () => a());
+    expect(Array.from({ length: 10 }, () => b())).toEqual(numbers);
+    numbers.forEach((n) => expect(n >= 0 && n < 1).toBe(true));
+    expect(seeded_random(124)()).not.toBe(numbers[0]);
+  });
+
+  test("a random-move scramble should be reproducible from its seed", () => {
+    const scramble = generate_scramble({ length: 20 });
+    expect(scramble.type).toBe("random-move");
+    expect(scramble.moves.length).toBe(20);
+    expect(generate_scramble({ length: 20, seed: scramble.seed })).toEqual(scramble);
+  });
+
+  test("a random-move scramble should turn the inner layers of bigger cubes", () => {
+    const scramble = generate_scramble({ length: 200, seed: 5, size: 6 });
+    expect(scramble.moves.some((move) => move.startsWith("3"))).toBe(true);
+    expect(new RubiksCube(scramble.moves.join(" "), solved_cube_for(default_color_scheme, 6)).isSolved()).toBe(false);
+    expect(() => generate_scramble({ type: "random-state", size: 4 })).toThrow("only available for the 3x3x3");
+  });
+
+  test("a random-move scramble of another puzzle should use that puzzle's moves", () => {
+    const pyraminx = get_puzzle("pyraminx");
+    const scramble = generate_scramble({ length: 10, seed: 3, puzzle: pyraminx });
+    expect(scramble.moves.every((move) => pyraminx.permutations.has(move))).toBe(true);
+    expect(generate_scramble({ length: 10, seed: 3, puzzle: pyraminx })).toEqual(scramble);
+    expect(() => generate_scramble({ type: "random-state", puzzle: pyraminx })).toThrow("not the Pyraminx");
+  });
+
+  test("random states should always be solvable", () => {
+    const random = seeded_random(1);
+    for (let i = 0; i < 200; i++) {
+      expect(validate_cube(cubies_to_cube(random_cubies(random))).errors).toEqual([]);
+    }
+  });
+
+  test("a random-state scramble should reach the random state it was drawn for", () => {
+    const scramble = generate_scramble({ type: "random-state", seed: 99 });
+    expect(scramble.moves.length).toBeGreaterThanOrEqual(2);
+    expect(scramble.moves.length).toBeLessThanOrEqual(22);
+
+    const state = cubies_to_cube(random_cubies(seeded_random(99)));
+    expect(new RubiksCube(scramble.moves.join(" ")).getCurrentState()).toEqual(state);
+    expect(cube_to_cubies(state).centers).toEqual([0, 1, 2, 3, 4, 5]);
+
+    expect(generate_scramble({ type: "random-state", seed: 99 })).toEqual(scramble);
+  });
+});
@@ -0,0 +1,132 @@
+// scramble.ts
+//
+// Scrambles come in two kinds. A random-move scramble is a sequence of random face turns. A random-state
+// scramble, as used in WCA competitions, picks a state uniformly from every solvable state and then finds
+// a sequence that reaches it, so no state is more likely than another.
+// Every scramble is drawn from a seeded generator and returns its seed, so it can be reproduced exactly.
+
+import { random_move_scramble } from "./rubiksCube";
+import { cubies_to_cube } from "./cubieCube";
+import type { CubieCube } from "./cubieCube";
+import { parity } from "./cubeValidation";
+import { invert_moves } from "./moveAlgebra";
+import { random_seed, seeded_random } from "./random";
+import type { Random } from "./random";
+import { NoSolutionError, solve_cube } from "./twoPhaseSolver";
+import { random_puzzle_scramble } from "./twistyPuzzle";
+import type { Puzzle } from "./twistyPuzzle";
+
+export type ScrambleType = "random-move" | "random-state";
+
+export type ScrambleOptions = {
+  type?: ScrambleType; // default: "random-move"
+  // Number of moves for a random-move scramble (default: 25); random-state scrambles are as long as they need to be
+  length?: number;
+  // Seed for the random number generator; a new one is picked when left out
+  seed?: number;
+  // Size of the cube (default: 3); random-state scrambles are only available for the 3x3
+  size?: number;
+  // A puzzle other than a cube, such as the Pyraminx; only random-move scrambles are available for these
+  puzzle?: Puzzle;
+};
+
+export type Scramble = {
+  type: ScrambleType;
+  seed: number;
+  moves: string[];
+};
+
+function shuffle(items: number[], random: Random): number[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+// The last orientation is fixed by the others, since the total twist or flip of a solvable cube is zero
+function random_orientation(size: number, modulus: number, random: Random): number[] {
+  const orientation = Array.from({ length: size - 1 }, () => Math.floor(random() * modulus));
+  const sum = orientation.reduce((a, b) => a + b, 0);
+  return [...orientation, (modulus - (sum % modulus)) % modulus];
+}
+
+/**
+ * Picks a solvable cubie cube uniformly at random.
+ */
+export function random_cubies(random: Random): CubieCube {
+  const cp = shuffle([0, 1, 2, 3, 4, 5, 6, 7], random);
+  const ep = shuffle([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11], random);
+  // Swapping two edges pairs every state of the wrong parity with exactly one of the right parity
+  if (parity(cp) !== parity(ep)) {
+    [ep[0], ep[1]] = [ep[1], ep[0]];
+  }
+  return {
+    cp,
+    co: random_orientation(8, 3, random),
+    ep,
+    eo: random_orientation(12, 2, random),
+    centers: [0, 1, 2, 3, 4, 5],
+  };
+}
+
+// The search for a random-state scramble is bounded by the positions it visits rather than by time, so the
+// same seed always gives the same scramble, and a scramble never takes more than a few seconds. A random
+// state is almost always solved within 200,000 positions.
+const scramble_search_nodes = 1_000_000;
+
+// States drawn before giving up, since a few are too close to solved or too hard to solve within the bound
+const max_scramble_draws = 10;
+
+/**
+ * Finds a sequence that turns the solved cube into a uniformly random state.
+ * Like WCA scrambles, states that can be solved in fewer than 2 moves are drawn again, as are the rare
+ * states the search cannot solve within its bound.
+ * @throws Error if no state drawn could be used
+ */
+export function random_state_scramble(random: Random): string[] {
+  for (let draw = 0; draw < max_scramble_draws; draw++) {
+    const cube = cubies_to_cube(random_cubies(random));
+    let solution;
+    try {
+      solution = solve_cube(cube, { timeoutMs: Infinity, maxNodes: scramble_search_nodes });
+    } catch (e) {
+      if (e instanceof NoSolutionError) {
+        continue;
+      }
+      throw e;
+    }
+    if (solution.length >= 2) {
+      return invert_moves(solution);
+    }
+  }
+  throw new Error(`Could not find a random-state scramble in ${max_scramble_draws} tries; try another seed`);
+}
+
+/**
+ * Generates a scramble of the requested kind. Passing the returned seed back in gives the same scramble.
+ * @throws Error if a random-state scramble is requested for a cube that is not a 3x3, or another puzzle
+ */
+export function generate_scramble(options: ScrambleOptions = {}): Scramble {
+  const type = options.type ?? "random-move";
+  const size = options.size ?? 3;
+  if (type === "random-state" && options.puzzle) {
+    throw new Error(
+      `Random-state scrambles are only available for the 3x3x3 cube, not the ${options.puzzle.definition.name}`
+    );
+  }
+  if (type === "random-state" && size !== 3) {
+    throw new Error(`Random-state scrambles are only available for the 3x3x3 cube, not ${size}x${size}x${size}`);
+  }
+  const seed = options.seed ?? random_seed();
+  const random = seeded_random(seed);
+
+  const length = options.length ?? 25;
+  const moves =
+    type === "random-state"
+      ? random_state_scramble(random)
+      : options.puzzle
+        ? random_puzzle_scramble(options.puzzle, length, random)
+        : random_move_scramble(length, random, size);
+  return { type, seed, moves };
+}
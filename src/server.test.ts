@@ -0,0 +1,231 @@
+import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import WebSocket from "ws";
+import type { SuccessRate } from "./attemptStats";
+import { invert_moves } from "./moveNotation";
+import type { RubiksCubeState } from "./server";
+
+// The agents run in the local Workers runtime under wrangler dev, with storage of their own that is removed
+// afterwards
+let wrangler: ChildProcess;
+let storage: string;
+let origin: string;
+
+function free_port(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer().listen(0, () => {
+      const address = server.address();
+      server.close(() => (typeof address === "object" && address ? resolve(address.port) : reject()));
+    });
+  });
+}
+
+beforeAll(async () => {
+  storage = mkdtempSync(join(tmpdir(), "rubiks-cube-"));
+  const [port, inspectorPort] = [await free_port(), await free_port()];
+  origin = `localhost:${port}`;
+  wrangler = spawn(
+    process.execPath,
+    [
+      require.resolve("wrangler/bin/wrangler.js"),
+      "dev",
+      ...["--port", String(port), "--inspector-port", String(inspectorPort)],
+      ...["--persist-to", storage, "--log-level", "error", "--show-interactive-dev-session=false"],
+    ],
+    { stdio: "ignore" }
+  );
+  for (let tries = 0; ; tries++) {
+    try {
+      await fetch(`http://${origin}/`);
+      return;
+    } catch (e) {
+      if (tries === 300) {
+        throw e;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+}, 60000);
+
+afterAll(async () => {
+  if (wrangler.exitCode === null) {
+    const exited = new Promise((resolve) => wrangler.once("exit", resolve));
+    wrangler.kill();
+    await exited;
+  }
+  rmSync(storage, { recursive: true, force: true });
+});
+
+type Reply<T> = { success: boolean; result?: T; error?: string };
+
+// Calls the callables of a cube over its websocket, as the client does
+async function connect(id: string) {
+  const socket = new WebSocket(`ws://${origin}/cube/rubiks-cube-agent/${id}`);
+  const pending = new Map<string, (reply: Reply<unknown>) => void>();
+  socket.on("message", (data) => {
+    const message = JSON.parse(String(data));
+    if (message.type === "rpc" && pending.has(message.id)) {
+      pending.get(message.id)!(message);
+      pending.delete(message.id);
+    }
+  });
+  await new Promise((resolve, reject) => socket.once("open", resolve).once("error", reject));
+  let calls = 0;
+  // Replies are whatever the callable returned, so the caller names its type
+  const call = <T = unknown>(method: string, ...args: unknown[]) =>
+    new Promise<Reply<T>>((resolve) => {
+      const id = String(++calls);
+      pending.set(id, (reply) => resolve(reply as Reply<T>));
+      socket.send(JSON.stringify({ type: "rpc", id, method, args }));
+    });
+  return { call, close: () => socket.close() };
+}
+
+// The body is the statistic asked for if the route succeeds, or the error otherwise
+async function stats<T = unknown>(route: string): Promise<{ status: number; body: T | string }> {
+  const response = await fetch(`http://${origin}/stats/${route}`);
+  return { status: response.status, body: response.ok ? await response.json() : await response.text() };
+}
+
+// Attempts are reported in the background, so wait until the leaderboard has counted so many
+async function attempts(query: string, count: number) {
+  for (let tries = 0; tries < 50; tries++) {
+    const { body } = await stats<SuccessRate>(`success-rate?${query}`);
+    if (typeof body === "object" && body.attempts >= count) {
+      return body;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error(`The leaderboard did not count ${count} attempts for ${query}`);
+}
+
+// The moves that undo the scramble a cube was left in
+function unscramble({ result }: Reply<RubiksCubeState>): string {
+  return invert_moves(result!.scramble!.moves).join(" ");
+}
+
+describe("Agents in the Workers runtime", () => {
+  test("a solved pyraminx should be reported, then scrambled again", async () => {
+    const cube = await connect("pyraminx");
+    await cube.call("setLabel", "pyraminx-model");
+    const solution = unscramble(await cube.call("scramble", 1, { puzzle: "pyraminx", seed: 1 }));
+    const solved = await cube.call("applyMoveSequence", solution);
+    expect(solved).toMatchObject({ success: true, result: { isSolved: true, reported: true } });
+    expect(await cube.call("scramble", 1, { seed: 2 })).toMatchObject({ success: true });
+    expect(await cube.call("reset")).toMatchObject({ success: true });
+    cube.close();
+    expect(await attempts("model=pyraminx-model&puzzle=pyraminx", 1)).toEqual({ attempts: 1, solved: 1, rate: 1 });
+  }, 30000);
+
+  test("an attempt should be reported once, by the cube it was forked from", async () => {
+    const cube = await connect("original");
+    await cube.call("setLabel", "forking-model");
+    // Scrambled deeper than the cubes ranked below, to keep out of their statistics
+    const solution = unscramble(await cube.call("scramble", 2, { seed: 5 }));
+    expect(await cube.call("fork", "branch")).toMatchObject({ success: true, result: { branchId: "branch" } });
+    const branch = await connect("branch");
+    expect(await branch.call("applyMoveSequence", solution)).toMatchObject({ result: { isSolved: true } });
+    // A fresh attempt on the branch is its own
+    await branch.call("scramble", 2, { seed: 6 });
+    await branch.call("applyMoveSequence", "R L");
+    await branch.call("reset");
+    branch.close();
+    expect(await cube.call("applyMoveSequence", solution)).toMatchObject({ result: { isSolved: true } });
+    cube.close();
+    await attempts("model=forking-model", 2);
+    expect(await stats("success-rate?model=forking-model")).toEqual({
+      status: 200,
+      body: { attempts: 2, solved: 1, rate: 0.5 },
+    });
+  }, 30000);
+
+  test("earlier attempts should be counted, and copied to a fork", async () => {
+    const cube = await connect("attempts");
+    await cube.call("applyMoveSequence", unscramble(await cube.call("scramble", 2, { seed: 7 })));
+    await cube.call("scramble", 2, { seed: 8 });
+    await cube.call("applyMoveSequence", "R L");
+    await cube.call("reset");
+    const summary = { count: 2, solved: 1, fewest: { htm: 2 } };
+    expect(await cube.call("getCubeState")).toMatchObject({ result: { attempts: summary } });
+    await cube.call("fork", "attempts-branch");
+    cube.close();
+    const branch = await connect("attempts-branch");
+    expect(await branch.call("getCubeState")).toMatchObject({ result: { attempts: summary } });
+    branch.close();
+  }, 30000);
+
+  test("a replayed transcript should not report its attempts again", async () => {
+    const cube = await connect("recorded");
+    await cube.call("setLabel", "replaying-model");
+    await cube.call("applyMoveSequence", unscramble(await cube.call("scramble", 3, { seed: 9 })));
+    const { result: transcript } = await cube.call("getTranscript");
+    cube.close();
+    await attempts("model=replaying-model", 1);
+
+    const replayed = await connect("replayed");
+    expect(await replayed.call("replayTranscript", transcript)).toMatchObject({ result: { mismatches: [] } });
+    // A new attempt after the replay is reported, and after anything the replay would have reported
+    await replayed.call("applyMoveSequence", unscramble(await replayed.call("scramble", 3, { seed: 10 })));
+    replayed.close();
+    await attempts("model=replaying-model", 2);
+    expect(await stats("success-rate?model=replaying-model")).toEqual({
+      status: 200,
+      body: { attempts: 2, solved: 2, rate: 1 },
+    });
+  }, 30000);
+
+  test("a cube deleted over MCP should be usable again under its id", async () => {
+    const mcp = new Client({ name: "server.test", version: "1.0.0" });
+    await mcp.connect(new SSEClientTransport(new URL(`http://${origin}/sse`)));
+    const text = async (name: string, args: Record<string, unknown> = {}) => {
+      const result = await mcp.callTool({ name, arguments: args });
+      return (result.content as { text: string }[])[0].text;
+    };
+    await text("createCube", { name: "doomed" });
+    await text("applyMoveSequence", { moves: "R U" });
+    const id = /\(id ([^)]+)\)/.exec(await text("listCubes"))![1];
+    expect(await text("deleteCube", { cubeId: "doomed" })).toBe("Deleted doomed. There are no cubes left.");
+    await mcp.close();
+
+    const cube = await connect(id);
+    expect(await cube.call("getCubeState")).toMatchObject({ success: true, result: { moveCount: 0, isSolved: true } });
+    expect(await cube.call("applyMoveSequence", "F")).toMatchObject({ success: true, result: { moveCount: 1 } });
+    expect(await cube.call("getTranscript")).toMatchObject({ result: { entries: [{ call: "applyMoveSequence" }] } });
+    cube.close();
+  }, 30000);
+
+  test("the stats routes should rank what the cubes reported", async () => {
+    // One model solves a cube, the other gives up on theirs by scrambling it again
+    for (const [id, model, solve] of [
+      ["solver", "solving-model", true],
+      ["quitter", "quitting-model", false],
+    ] as const) {
+      const cube = await connect(id);
+      await cube.call("setLabel", model);
+      const solution = unscramble(await cube.call("scramble", 1, { seed: 3 }));
+      await cube.call("applyMoveSequence", solve ? solution : "R L");
+      await cube.call("scramble", 1, { seed: 4 });
+      cube.close();
+    }
+    await attempts("depth=1&puzzle=3x3x3", 2);
+
+    const board = await stats("leaderboard?depth=1&puzzle=3x3x3");
+    expect(board.status).toBe(200);
+    expect(board.body).toEqual([
+      { model: "solving-model", attempts: 1, solved: 1, rate: 1, medianMoves: 1 },
+      { model: "quitting-model", attempts: 1, solved: 0, rate: 0, medianMoves: null },
+    ]);
+    expect(await stats("median-moves?model=solving-model")).toEqual({
+      status: 200,
+      body: { solved: 1, medianMoves: 1 },
+    });
+    expect((await stats("success-rate?depth=deep")).status).toBe(400);
+    expect((await stats("fastest")).status).toBe(404);
+  }, 30000);
+});
@@ -1,9 +1,67 @@
-import { Agent, routeAgentRequest, getAgentByName, unstable_callable as callable, type AgentNamespace } from "agents";
+import {
+  Agent,
+  routeAgentRequest,
+  getAgentByName,
+  unstable_callable as callable,
+  type AgentContext,
+  type AgentNamespace,
+} from "agents";
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { RubiksCube, S, solved_cube } from "./rubiksCube";
-import type { Cube, Face } from "./rubiksCube";
+import { RubiksCube, apply_moves_to_cube, is_solved_cube } from "./rubiksCube";
+import { MoveNotationError, parse_move_sequence, parse_moves } from "./moveNotation";
+import { compose_moves, invert_moves, mirror_moves, simplify_moves } from "./moveAlgebra";
+import { assert_valid_cube } from "./cubeValidation";
+import { solve_cube } from "./twoPhaseSolver";
+import { solve_beginner } from "./beginnerSolver";
+import { analyze_cfop } from "./cfopAnalysis";
+import type { CfopAnalysis } from "./cfopAnalysis";
+import { algorithm_library, find_algorithm, resolve_alias } from "./algorithmLibrary";
+import type { AlgorithmLookup } from "./algorithmLibrary";
+import { analyze_algorithm, layers } from "./algorithmAnalysis";
+import type { AlgorithmAnalysis, Layer, PieceCycle } from "./algorithmAnalysis";
+import { cube_formats, cube_state_schema, export_cube_state, import_cube_state } from "./cubeFormats";
+import type { CubeFormat } from "./cubeFormats";
+import { add_metrics, count_moves, describe_metrics, no_moves, subtract_metrics } from "./moveMetrics";
+import type { MoveMetrics } from "./moveMetrics";
+import { apply_mask, check_mask, describe_mask } from "./stickerMask";
+import type { MaskedSticker, StickerMask } from "./stickerMask";
+import { make_history } from "./cubeHistory";
+import { describe_outcome, export_transcript, parse_transcript, transcript_formats } from "./transcript";
+import type { ReplayReport, Transcript, TranscriptCall, TranscriptFormat } from "./transcript";
+import {
+  describe_solve,
+  describe_stats,
+  inspection_penalty,
+  penalties,
+  session_stats,
+  worse_penalty,
+} from "./speedsolve";
+import type { Penalty, SessionStats, Solve } from "./speedsolve";
+import { all_models, leaderboard, median_moves, parse_attempt_query, success_rate, unlabelled } from "./attemptStats";
+import type { AttemptQuery, AttemptReport, LeaderboardEntry, ModelAttempts, SuccessRate } from "./attemptStats";
+import { trace_progress } from "./progress";
+import type { ProgressReport } from "./progress";
+import { generate_scramble } from "./scramble";
+import type { Scramble, ScrambleType } from "./scramble";
+import {
+  color_hex,
+  color_schemes,
+  default_color_scheme,
+  describe_color_scheme,
+  find_color_scheme,
+  make_color_scheme,
+  recolor_cube,
+  solved_cube_for,
+} from "./colorScheme";
+import type { ColorScheme, ColorSchemeName } from "./colorScheme";
+import { cube_size, max_cube_size, min_cube_size, sticker_index } from "./nxnCube";
+import { get_puzzle, puzzle_ids } from "./puzzleRegistry";
+import type { PuzzleId } from "./puzzleRegistry";
+import { apply_puzzle_moves, is_puzzle_solved, parse_puzzle_moves } from "./twistyPuzzle";
+import type { Puzzle } from "./twistyPuzzle";
+import type { Color, Cube, Face } from "./rubiksCube";
 import dedent from "dedent";
 import { initialize, svg2png, type ConvertOptions } from "svg2png-wasm";
 import wasm from "svg2png-wasm/svg2png_wasm_bg.wasm";
@@ -11,208 +69,2567 @@ import wasm from "svg2png-wasm/svg2png_wasm_bg.wasm";
 type Env = {
   RubiksCubeAgent: AgentNamespace<RubiksCubeAgent>;
   RubiksCubeMCP: DurableObjectNamespace<RubiksCubeMCP>;
+  Leaderboard: AgentNamespace<LeaderboardAgent>;
   ASSETS: {
     fetch(request: Request): Promise<Response>;
   };
+  // Set to "true" to offer the solveCube tool to MCP clients
+  ENABLE_SOLVER_TOOL?: string;
+  // Set to "true" to offer the getNextStage tool and the rubiks-cube-coached prompt to MCP clients
+  ENABLE_COACH_TOOL?: string;
 };
 
 export type RubiksCubeState = {
-  moveHistory: string[];
+  // The number of moves made this attempt. The moves themselves are rows of the moves table, read with
+  // getHistory, so the state sent to clients after every move stays small.
+  moveCount: number;
+  // The last moves made, at most recent_moves of them, for clients to show
+  recentMoves: string[];
   isSolved: boolean;
-  stateHistory: Cube[];
+  currentState: Cube;
+  // How the starting state was scrambled, so it can be reproduced from its seed
+  scramble?: Scramble | null;
+  // The colors the cube is painted in (default: Western)
+  colorScheme?: ColorScheme;
+  // The user's own names for move sequences, mapped to the moves
+  aliases?: Record<string, string>;
+  // The puzzle being played, if it is not a cube; cubes of every size, the 3x3x3 included, are null
+  puzzle?: PuzzleId | null;
+  // The moves made this attempt in each metric, kept up to date so they are never counted again
+  metrics?: MoveMetrics;
+  // Stickers to hide from the model in the MCP text and the SVG and PNG images; cubes only
+  mask?: StickerMask | null;
+  // How many moves taken back by undo can be made again. They stay in the moves table, after the moves
+  // made, until other moves are made.
+  redoCount?: number;
+  // The names of this attempt's checkpoints, which are rows of the checkpoints table
+  checkpoints?: string[];
+  // The cube this one was forked from, if any
+  forkedFrom?: string | null;
+  // Who is making the moves, usually the model under test; attempts are reported to the leaderboard under it
+  label?: string | null;
+  // Whether this attempt has been reported to the leaderboard, which happens once, when it is solved or ends
+  reported?: boolean;
+  // The timed solve under way, if any; finished solves are rows of the solves table
+  timer?: Timer | null;
 };
 
+// An attempt made before the current one, which ended when the cube was scrambled, reset or replaced.
+// They are rows of the attempts table.
+export type Attempt = {
+  scramble: Scramble | null;
+  puzzle: PuzzleId | null;
+  metrics: MoveMetrics;
+  solved: boolean;
+};
+
+// How the earlier attempts went, counted from the attempts table
+export type AttemptSummary = {
+  count: number;
+  solved: number;
+  // The metrics of the solved attempt with the fewest moves in HTM, if any was solved
+  fewest: MoveMetrics | null;
+};
+
+// A timed solve, from inspection until the cube is solved or the solve is given up
+export type Timer = {
+  // When inspection started, or null if the solve was started without it
+  inspectionStartedAt: number | null;
+  // When the solve started, or null during inspection
+  startedAt: number | null;
+  // The penalty for a slow inspection
+  penalty: Penalty;
+};
+
+// The state as earlier versions of the agent saved it, before the history and the earlier attempts moved
+// to SQL tables
+type LegacyState = RubiksCubeState & {
+  moveHistory?: string[];
+  stateHistory?: Cube[];
+  attempts?: Attempt[];
+};
+
+// Rows of the SQL tables. Cubes are stored as JSON.
+type SnapshotRow = { move_count: number; state: string };
+type CheckpointRow = { name: string; moves: string; state: string; is_solved: number; metrics: string };
+type TranscriptRow = {
+  time: number;
+  call: string;
+  args: string;
+  move_count: number;
+  is_solved: number;
+  error: string | null;
+};
+type EarlierAttemptRow = {
+  scramble: string | null;
+  puzzle: PuzzleId | null;
+  moves: number;
+  metrics: string;
+  solved: number;
+};
+type SolveRow = {
+  finished_at: number;
+  scramble: string;
+  puzzle: PuzzleId | null;
+  inspection: number | null;
+  time: number;
+  metrics: string;
+  penalty: Penalty;
+};
+
+// What fork copies to the new cube
+type Branch = {
+  state: RubiksCubeState;
+  moves: string[];
+  snapshots: SnapshotRow[];
+  checkpoints: CheckpointRow[];
+  attempts: EarlierAttemptRow[];
+};
+
+// Every cube reports to the same leaderboard
+const leaderboard_id = "global";
+
+// Each checkpoint holds a copy of the moves, so only a few are kept
+const max_checkpoints = 20;
+
+const recent_moves = 50;
+
+// The longest page of moves getHistory reads
+const max_history_page = 1000;
+
+// The longest solution solve looks for, and the longest it may search, so one call cannot keep the cube busy
+const max_solution_length = 30;
+const max_solve_timeout_ms = 10000;
+
+// The longest random-move scramble
+const max_scramble_moves = 100;
+
 export type RubiksCubeResponse = {
-  moveHistory: string[];
+  // The single moves made, in order
+  moves: string[];
   isSolved: boolean;
-  stateHistory: Cube[];
+  currentState: Cube;
 };
 
-export class RubiksCubeAgent extends Agent<Env, RubiksCubeState> {
-  initialState: RubiksCubeState = {
-    moveHistory: [],
-    isSolved: true,
-    stateHistory: [solved_cube],
-  };
+export class RubiksCubeAgent extends Agent<Env, RubiksCubeState> {
+  initialState: RubiksCubeState = {
+    moveCount: 0,
+    recentMoves: [],
+    isSolved: true,
+    currentState: solved_cube_for(default_color_scheme),
+    scramble: null,
+    colorScheme: default_color_scheme,
+    aliases: {},
+    puzzle: null,
+    metrics: no_moves,
+    mask: null,
+    redoCount: 0,
+    checkpoints: [],
+    forkedFrom: null,
+    label: null,
+    reported: false,
+    timer: null,
+  };
+
+  // Whether the stored state has been checked since the agent loaded it
+  #checked = false;
+  // Whether a transcript is being replayed, whose attempts the cube it came from has reported already
+  #replaying = false;
+
+  // The moves and the states along the way are kept in SQL tables, written once each instead of with every
+  // change of state. Cubes saved before the tables existed are moved over the first time they start. This
+  // happens in the constructor rather than in onStart, which may not have run yet when the first call
+  // arrives over RPC.
+  constructor(ctx: AgentContext, env: Env) {
+    super(ctx, env);
+    this.sql`CREATE TABLE IF NOT EXISTS moves (position INTEGER PRIMARY KEY, move TEXT NOT NULL)`;
+    // The state after the first move_count moves: the starting state, then the state after each step, a
+    // step being one sequence of moves applied at once
+    this.sql`CREATE TABLE IF NOT EXISTS snapshots (move_count INTEGER PRIMARY KEY, state TEXT NOT NULL)`;
+    this.sql`
+      CREATE TABLE IF NOT EXISTS checkpoints (
+        name TEXT PRIMARY KEY,
+        moves TEXT NOT NULL,
+        state TEXT NOT NULL,
+        is_solved INTEGER NOT NULL,
+        metrics TEXT NOT NULL
+      )
+    `;
+    // Every call made to the cube, kept across attempts; see transcript.ts
+    this.sql`
+      CREATE TABLE IF NOT EXISTS transcript (
+        position INTEGER PRIMARY KEY AUTOINCREMENT,
+        time INTEGER NOT NULL,
+        call TEXT NOT NULL,
+        args TEXT NOT NULL,
+        move_count INTEGER NOT NULL,
+        is_solved INTEGER NOT NULL,
+        error TEXT
+      )
+    `;
+    // The timed solves of this session, kept across attempts until clearSession; see speedsolve.ts
+    this.sql`
+      CREATE TABLE IF NOT EXISTS solves (
+        position INTEGER PRIMARY KEY AUTOINCREMENT,
+        finished_at INTEGER NOT NULL,
+        scramble TEXT NOT NULL,
+        puzzle TEXT,
+        inspection INTEGER,
+        time INTEGER NOT NULL,
+        metrics TEXT NOT NULL,
+        penalty TEXT NOT NULL
+      )
+    `;
+    // The attempts made before the current one, kept across attempts; moves is the move count in HTM
+    this.sql`
+      CREATE TABLE IF NOT EXISTS attempts (
+        position INTEGER PRIMARY KEY AUTOINCREMENT,
+        scramble TEXT,
+        puzzle TEXT,
+        moves INTEGER NOT NULL,
+        metrics TEXT NOT NULL,
+        solved INTEGER NOT NULL
+      )
+    `;
+
+    let legacy = this.state as LegacyState;
+    if (legacy.stateHistory || legacy.attempts) {
+      this.#migrate(legacy);
+    }
+    if (this.sql`SELECT 1 FROM snapshots WHERE move_count = 0`.length === 0) {
+      this.#saveSnapshot(0, this.state.currentState);
+    }
+  }
+
+  #migrate(legacy: LegacyState) {
+    let { moveHistory = [], stateHistory, attempts = [], ...rest } = legacy;
+    if (stateHistory) {
+      let history = make_history(moveHistory, stateHistory);
+      this.#clearTables();
+      this.#writeMoves(0, history.moveHistory);
+      let moveCount = 0;
+      history.stateHistory.forEach((state, i) => {
+        moveCount += i > 0 ? history.stepLengths[i - 1] : 0;
+        this.#saveSnapshot(moveCount, state);
+      });
+      rest = {
+        ...rest,
+        moveCount: history.moveHistory.length,
+        recentMoves: history.moveHistory.slice(-recent_moves),
+        currentState: stateHistory[stateHistory.length - 1],
+      };
+    }
+    attempts.forEach((attempt) => this.#saveAttempt(attempt));
+    this.setState(rest);
+  }
+
+  // Runs a call and adds it to the transcript, whether it succeeds or fails
+  #record<T>(call: TranscriptCall, args: unknown[], run: () => T): T {
+    let time = Date.now();
+    let error: string | null = null;
+    try {
+      return run();
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      throw e;
+    } finally {
+      let { moveCount, isSolved } = this.state;
+      this.sql`
+        INSERT INTO transcript (time, call, args, move_count, is_solved, error)
+        VALUES (${time}, ${call}, ${JSON.stringify(args)}, ${moveCount}, ${isSolved ? 1 : 0}, ${error})
+      `;
+    }
+  }
+
+  // Whether nothing has been done to this cube yet, so it can be replaced by a branch or a replay
+  #isUnused(): boolean {
+    let { moveCount, scramble, puzzle, forkedFrom } = this.state;
+    let recorded = this.sql`SELECT 1 FROM transcript LIMIT 1`.length > 0;
+    let attempted = this.sql`SELECT 1 FROM attempts LIMIT 1`.length > 0;
+    return moveCount === 0 && !scramble && !puzzle && !forkedFrom && !recorded && !attempted;
+  }
+
+  #clearTables() {
+    this.sql`DELETE FROM moves`;
+    this.sql`DELETE FROM snapshots`;
+    this.sql`DELETE FROM checkpoints`;
+  }
+
+  // Writes moves from a position on, replacing any already there
+  #writeMoves(from: number, moves: string[]) {
+    moves.forEach((move, i) => {
+      this.sql`INSERT OR REPLACE INTO moves (position, move) VALUES (${from + i}, ${move})`;
+    });
+  }
+
+  #readMoves(from: number, to: number): string[] {
+    return this.sql<{ move: string }>`
+      SELECT move FROM moves WHERE position >= ${from} AND position < ${to} ORDER BY position
+    `.map((row) => row.move);
+  }
+
+  #saveAttempt({ scramble, puzzle, metrics, solved }: Attempt) {
+    this.sql`
+      INSERT INTO attempts (scramble, puzzle, moves, metrics, solved)
+      VALUES (${scramble && JSON.stringify(scramble)}, ${puzzle}, ${metrics.htm}, ${JSON.stringify(metrics)}, ${solved ? 1 : 0})
+    `;
+  }
+
+  #summarizeAttempts(): AttemptSummary {
+    let [{ count, solved }] = this.sql<{ count: number; solved: number | null }>`
+      SELECT COUNT(*) AS count, SUM(solved) AS solved FROM attempts
+    `;
+    let [fewest] = this.sql<{ metrics: string }>`
+      SELECT metrics FROM attempts WHERE solved = 1 ORDER BY moves, position LIMIT 1
+    `;
+    return { count, solved: solved ?? 0, fewest: fewest ? JSON.parse(fewest.metrics) : null };
+  }
+
+  #saveSnapshot(moveCount: number, state: Cube) {
+    this.sql`INSERT OR REPLACE INTO snapshots (move_count, state) VALUES (${moveCount}, ${JSON.stringify(state)})`;
+  }
+
+  #saveCheckpointRow(name: string, moves: string[], state: Cube, isSolved: boolean, metrics: MoveMetrics) {
+    this.sql`
+      INSERT OR REPLACE INTO checkpoints (name, moves, state, is_solved, metrics)
+      VALUES (${name}, ${JSON.stringify(moves)}, ${JSON.stringify(state)}, ${isSolved ? 1 : 0}, ${JSON.stringify(metrics)})
+    `;
+  }
+
+  #getColorScheme(): ColorScheme {
+    return this.state.colorScheme ?? default_color_scheme;
+  }
+
+  // The solvers and analysis work in the default colors
+  #inDefaultColors(cube: Cube): Cube {
+    return recolor_cube(cube, this.#getColorScheme(), default_color_scheme);
+  }
+
+  // The puzzle being played, or null for a cube
+  #getPuzzle(): Puzzle | null {
+    return this.state.puzzle ? get_puzzle(this.state.puzzle) : null;
+  }
+
+  #getSize(): number {
+    return cube_size(this.state.currentState);
+  }
+
+  #isThreeByThree(): boolean {
+    return !this.state.puzzle && this.#getSize() === 3;
+  }
+
+  // The solvers, the analysis and the validity check only know the 3x3x3
+  #assertThreeByThree(feature: string) {
+    let puzzle = this.#getPuzzle();
+    if (puzzle) {
+      throw new Error(`${feature} only works on a 3x3x3 cube, but this is a ${puzzle.definition.name}`);
+    }
+    let size = this.#getSize();
+    if (size !== 3) {
+      throw new Error(`${feature} only works on a 3x3x3 cube, but this cube is ${size}x${size}x${size}`);
+    }
+  }
+
+  #checkSize(size: number = this.#getSize()): number {
+    if (!Number.isInteger(size) || size < min_cube_size || size > max_cube_size) {
+      throw new Error(`Cube size must be a whole number from ${min_cube_size} to ${max_cube_size}, but got ${size}`);
+    }
+    return size;
+  }
+
+  // The puzzle and solved state to start over from. A size, or the 3x3x3, means a cube; with neither, the
+  // puzzle stays the same
+  #getStart(puzzleId?: PuzzleId, size?: number): { puzzle: PuzzleId | null; solved: Cube } {
+    if (puzzleId !== undefined && size !== undefined) {
+      throw new Error("Choose either a puzzle or a cube size, not both");
+    }
+    let current = this.state.puzzle ?? null;
+    let id = puzzleId ?? (size === undefined ? current : null);
+    if (id && id !== "3x3x3") {
+      return { puzzle: id, solved: [...get_puzzle(id).definition.solved] as Cube };
+    }
+    size ??= id === "3x3x3" || current ? 3 : this.#getSize();
+    return { puzzle: null, solved: solved_cube_for(this.#getColorScheme(), this.#checkSize(size)) };
+  }
+
+  // States saved before the metrics were kept have them counted once
+  #getMetrics(): MoveMetrics {
+    return this.state.metrics ?? count_moves(this.#readMoves(0, this.state.moveCount));
+  }
+
+  // Starts a new attempt from a state, recording the one before if any moves were made in it
+  #startAttempt(start: Cube, isSolved: boolean, scramble: Scramble | null, puzzle: PuzzleId | null) {
+    // A solve left unfinished is given up
+    if (this.state.timer) {
+      this.#finishSolve("DNF");
+    }
+    this.#reportAttempt();
+    if (this.state.moveCount > 0) {
+      let { scramble, puzzle = null, isSolved } = this.state;
+      this.#saveAttempt({ scramble: scramble ?? null, puzzle, metrics: this.#getMetrics(), solved: isSolved });
+    }
+    this.#clearTables();
+    this.#saveSnapshot(0, start);
+    this.setState({
+      ...this.state,
+      moveCount: 0,
+      recentMoves: [],
+      isSolved,
+      currentState: start,
+      scramble,
+      puzzle,
+      metrics: no_moves,
+      redoCount: 0,
+      checkpoints: [],
+      timer: null,
+      reported: false,
+    });
+  }
+
+  // Sends the attempt to the leaderboard, unless it did not start from a scramble or no move was made.
+  // The cube carries on if the leaderboard cannot be reached.
+  #reportAttempt() {
+    let { scramble, moveCount, reported, isSolved, puzzle, label } = this.state;
+    if (!scramble || moveCount === 0 || reported || this.#replaying) {
+      return;
+    }
+    // Only a cube has a size to name it by; the stickers of other puzzles do not make up a cube
+    let name: string | null | undefined = puzzle;
+    if (!name) {
+      let size = this.#getSize();
+      name = `${size}x${size}x${size}`;
+    }
+    let report: AttemptReport = {
+      cubeId: this.name,
+      finishedAt: Date.now(),
+      puzzle: name,
+      scrambleType: scramble.type,
+      scrambleDepth: scramble.moves.length,
+      moves: this.#getMetrics().htm,
+      solved: isSolved,
+      model: label ?? unlabelled,
+    };
+    this.ctx.waitUntil(
+      getAgentByName(this.env.Leaderboard, leaderboard_id)
+        .then((leaderboard) => leaderboard.reportAttempt(report))
+        .catch((e) => console.error(`Could not report an attempt of cube ${this.name}:`, e))
+    );
+    this.setState({ ...this.state, reported: true });
+  }
+
+  // Timed solves start from a scrambled cube, before any move
+  #assertReadyToSolve() {
+    let { scramble, moveCount, isSolved } = this.state;
+    if (!scramble || moveCount > 0 || isSolved) {
+      throw new Error("A timed solve starts from a fresh scramble: scramble the cube first");
+    }
+  }
+
+  // Ends inspection, if it is under way, and starts the time
+  #startSolve() {
+    let now = Date.now();
+    let { inspectionStartedAt = null } = this.state.timer ?? {};
+    let penalty = inspectionStartedAt === null ? "none" : inspection_penalty(now - inspectionStartedAt);
+    this.setState({ ...this.state, timer: { inspectionStartedAt, startedAt: now, penalty } });
+  }
+
+  // Stops the time and adds the solve to the session
+  #finishSolve(penalty: Penalty): Solve {
+    let now = Date.now();
+    let { inspectionStartedAt, startedAt, penalty: inspectionPenalty } = this.state.timer!;
+    let solve: Solve = {
+      finishedAt: now,
+      scramble: this.state.scramble ?? null,
+      puzzle: this.state.puzzle ?? null,
+      // A solve given up during inspection never started
+      inspection: inspectionStartedAt === null ? null : (startedAt ?? now) - inspectionStartedAt,
+      time: startedAt === null ? 0 : now - startedAt,
+      metrics: this.#getMetrics(),
+      penalty: worse_penalty(inspectionPenalty, penalty),
+    };
+    this.sql`
+      INSERT INTO solves (finished_at, scramble, puzzle, inspection, time, metrics, penalty)
+      VALUES (${solve.finishedAt}, ${JSON.stringify(solve.scramble)}, ${solve.puzzle}, ${solve.inspection},
+        ${solve.time}, ${JSON.stringify(solve.metrics)}, ${solve.penalty})
+    `;
+    this.setState({ ...this.state, timer: null });
+    return solve;
+  }
+
+  #readSolves(): Solve[] {
+    return this.sql<SolveRow>`
+      SELECT finished_at, scramble, puzzle, inspection, time, metrics, penalty FROM solves ORDER BY position
+    `.map((row) => ({
+      finishedAt: row.finished_at,
+      scramble: JSON.parse(row.scramble),
+      puzzle: row.puzzle,
+      inspection: row.inspection,
+      time: row.time,
+      metrics: JSON.parse(row.metrics),
+      penalty: row.penalty,
+    }));
+  }
+
+  // Applies moves as they are recorded in the moves table, which every puzzle can parse again
+  #replay(state: Cube, moves: string[]): Cube {
+    let puzzle = this.#getPuzzle();
+    return puzzle ? (apply_puzzle_moves(puzzle, state, moves) as Cube) : apply_moves_to_cube(state, moves);
+  }
+
+  #isSolvedState(state: Cube): boolean {
+    let puzzle = this.#getPuzzle();
+    return puzzle ? is_puzzle_solved(puzzle, state) : is_solved_cube(state);
+  }
+
+  #getCurrentCube(): RubiksCube {
+    // The state is stored with the agent, so make sure it is still a cube that can be solved. Every state
+    // made from a valid one by turning it is valid too, so this happens once after the agent loads it.
+    let { currentState } = this.state;
+    if (!this.#checked) {
+      if (this.#isThreeByThree()) {
+        assert_valid_cube(this.#inDefaultColors(currentState));
+      }
+      this.#checked = true;
+    }
+    // Only moves made from here on are needed, so the history is not read
+    return RubiksCube.restore(currentState, [], currentState);
+  }
+
+  // Cubes turn on the cube engine, which knows every cube notation; other puzzles on their definition
+  #turn(sequence: string): RubiksCubeResponse {
+    let puzzle = this.#getPuzzle();
+    if (puzzle) {
+      let moves = parse_puzzle_moves(puzzle, sequence);
+      let currentState = apply_puzzle_moves(puzzle, this.state.currentState, moves) as Cube;
+      return { moves, isSolved: is_puzzle_solved(puzzle, currentState), currentState };
+    }
+
+    let cube = this.#getCurrentCube();
+    cube.applyMoveSequence(sequence);
+    return { moves: [...cube.getMoveHistory()], isSolved: cube.isSolved(), currentState: cube.getCurrentState() };
+  }
+
+  /**
+   * Applies a sequence of moves, and reports how each move changed the distance to solved and how long the
+   * sequence is in each metric. The progress is null for puzzles other than the 3x3x3.
+   */
+  @callable()
+  applyMoveSequence(sequence: string) {
+    return this.#record("applyMoveSequence", [sequence], () => this.#applyStep(sequence, 0));
+  }
+
+  // Applies a sequence as one step of the history, keeping that many of the moves after it to redo
+  #applyStep(
+    sequence: string,
+    redoCount: number
+  ): RubiksCubeState & { progress: ProgressReport | null; sequenceMetrics: MoveMetrics; solve: Solve | null } {
+    let { moveCount, currentState, recentMoves } = this.state;
+    let turned = this.#turn(sequence);
+    // The first move ends inspection, as on a virtual cube there is no timer to start by hand
+    if (this.state.timer?.startedAt === null) {
+      this.#startSolve();
+    }
+
+    let progress = this.#isThreeByThree() ? trace_progress(this.#inDefaultColors(currentState), turned.moves) : null;
+    let sequenceMetrics = count_moves(turned.moves);
+
+    let made = moveCount + turned.moves.length;
+    this.#writeMoves(moveCount, turned.moves);
+    this.sql`DELETE FROM moves WHERE position >= ${made + redoCount}`;
+    this.#saveSnapshot(made, turned.currentState);
+
+    this.setState({
+      ...this.state,
+      moveCount: made,
+      recentMoves: [...recentMoves, ...turned.moves].slice(-recent_moves),
+      isSolved: turned.isSolved,
+      currentState: turned.currentState,
+      metrics: add_metrics(this.#getMetrics(), sequenceMetrics),
+      redoCount,
+    });
+    if (turned.isSolved) {
+      this.#reportAttempt();
+    }
+    let solve = this.state.timer && turned.isSolved ? this.#finishSolve("none") : null;
+    return { ...this.state, progress, sequenceMetrics, solve };
+  }
+
+  /**
+   * Reads a page of the moves made this attempt, oldest first.
+   * @param offset - How many moves to skip (default: 0)
+   * @param limit - How many moves to read, at most 1000 (default: 100)
+   * @throws Error if the offset or the limit is out of range
+   */
+  @callable()
+  getHistory(offset: number = 0, limit: number = 100): { total: number; offset: number; moves: string[] } {
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`The offset must be a whole number from 0, but got ${offset}`);
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > max_history_page) {
+      throw new Error(`The limit must be a whole number from 1 to ${max_history_page}, but got ${limit}`);
+    }
+    let total = this.state.moveCount;
+    return { total, offset, moves: this.#readMoves(offset, Math.min(total, offset + limit)) };
+  }
+
+  /**
+   * Takes back the last moves, as if they had never been made. They can be made again with redo until
+   * other moves are made.
+   * @param count - How many moves to take back (default: 1)
+   * @throws Error if fewer moves than that have been made
+   */
+  @callable()
+  undo(count: number = 1): RubiksCubeState & { undone: string[] } {
+    return this.#record("undo", [count], () => {
+      let { moveCount } = this.state;
+      if (moveCount === 0) {
+        throw new Error("There are no moves to undo");
+      }
+      if (!Number.isInteger(count) || count < 1 || count > moveCount) {
+        throw new Error(`The number of moves to undo must be a whole number from 1 to ${moveCount}, but got ${count}`);
+      }
+
+      // Start from the last state saved at or before the moves kept, and replay the rest of its step
+      let kept = moveCount - count;
+      let [base] = this.sql<SnapshotRow>`
+        SELECT move_count, state FROM snapshots WHERE move_count <= ${kept} ORDER BY move_count DESC LIMIT 1
+      `;
+      let currentState = this.#replay(JSON.parse(base.state), this.#readMoves(base.move_count, kept));
+      this.sql`DELETE FROM snapshots WHERE move_count > ${kept}`;
+      this.#saveSnapshot(kept, currentState);
+
+      let undone = this.#readMoves(kept, moveCount);
+      this.setState({
+        ...this.state,
+        moveCount: kept,
+        recentMoves: this.#readMoves(Math.max(0, kept - recent_moves), kept),
+        isSolved: this.#isSolvedState(currentState),
+        currentState,
+        metrics: subtract_metrics(this.#getMetrics(), count_moves(undone)),
+        redoCount: (this.state.redoCount ?? 0) + count,
+      });
+      return { ...this.state, undone };
+    });
+  }
+
+  /**
+   * Makes moves taken back by undo again, like applyMoveSequence.
+   * @param count - How many moves to make again (default: 1)
+   * @throws Error if fewer moves than that can be redone
+   */
+  @callable()
+  redo(count: number = 1) {
+    return this.#record("redo", [count], () => {
+      let { moveCount, redoCount = 0 } = this.state;
+      if (redoCount === 0) {
+        throw new Error("There are no moves to redo");
+      }
+      if (!Number.isInteger(count) || count < 1 || count > redoCount) {
+        throw new Error(`The number of moves to redo must be a whole number from 1 to ${redoCount}, but got ${count}`);
+      }
+      return this.#applyStep(this.#readMoves(moveCount, moveCount + count).join(" "), redoCount - count);
+    });
+  }
+
+  /**
+   * Saves the moves and the state under a name, to come back to with restoreCheckpoint. Saving a name
+   * again replaces it. Checkpoints last until the cube is scrambled, reset or replaced.
+   * @throws Error if the name is empty, or there are too many checkpoints already
+   */
+  @callable()
+  saveCheckpoint(name: string) {
+    return this.#record("saveCheckpoint", [name], () => {
+      let checkpoints = this.state.checkpoints ?? [];
+      let key = name.trim();
+      if (!key) {
+        throw new Error("A checkpoint needs a name");
+      }
+      if (!checkpoints.includes(key) && checkpoints.length >= max_checkpoints) {
+        throw new Error(`There can be at most ${max_checkpoints} checkpoints; restore or overwrite one instead`);
+      }
+      let { moveCount, currentState, isSolved } = this.state;
+      this.#saveCheckpointRow(key, this.#readMoves(0, moveCount), currentState, isSolved, this.#getMetrics());
+      this.setState({ ...this.state, checkpoints: checkpoints.includes(key) ? checkpoints : [...checkpoints, key] });
+      return this.state;
+    });
+  }
+
+  /**
+   * Goes back to the moves and the state saved at a checkpoint. The checkpoint is kept, and the moves made
+   * since cannot be redone.
+   * @throws Error if there is no checkpoint by that name
+   */
+  @callable()
+  restoreCheckpoint(name: string) {
+    return this.#record("restoreCheckpoint", [name], () => {
+      let [checkpoint] = this.sql<CheckpointRow>`SELECT * FROM checkpoints WHERE name = ${name.trim()}`;
+      if (!checkpoint) {
+        let names = this.state.checkpoints ?? [];
+        throw new Error(
+          names.length > 0
+            ? `No checkpoint named ${name} (the checkpoints are ${names.join(", ")})`
+            : "There are no checkpoints"
+        );
+      }
+
+      let moves: string[] = JSON.parse(checkpoint.moves);
+      let currentState: Cube = JSON.parse(checkpoint.state);
+      this.sql`DELETE FROM moves`;
+      this.#writeMoves(0, moves);
+      this.sql`DELETE FROM snapshots WHERE move_count > 0`;
+      this.#saveSnapshot(moves.length, currentState);
+
+      this.setState({
+        ...this.state,
+        moveCount: moves.length,
+        recentMoves: moves.slice(-recent_moves),
+        isSolved: checkpoint.is_solved === 1,
+        currentState,
+        metrics: JSON.parse(checkpoint.metrics),
+        redoCount: 0,
+      });
+      return this.state;
+    });
+  }
+
+  /**
+   * Copies this cube, its history and checkpoints included, to a new cube that can be turned without
+   * changing this one. A timed solve under way, and the session's solves, stay with this cube, and so does
+   * the attempt: only this cube reports it to the leaderboard, while the new one reports attempts of its own
+   * once it is scrambled again.
+   * @param branchId - The id of the new cube (default: a random one)
+   * @throws Error if a cube with that id is already in use
+   */
+  @callable()
+  async fork(branchId?: string): Promise<{ branchId: string }> {
+    let id = branchId?.trim() || crypto.randomUUID();
+    if (id === this.name) {
+      throw new Error("A cube cannot be forked into itself");
+    }
+    let { moveCount, redoCount = 0 } = this.state;
+    let branch = await getAgentByName(this.env.RubiksCubeAgent, id);
+    await branch.startBranch({
+      state: { ...this.state, forkedFrom: this.name, timer: null, reported: true },
+      moves: this.#readMoves(0, moveCount + redoCount),
+      snapshots: this.sql<SnapshotRow>`SELECT move_count, state FROM snapshots`,
+      checkpoints: this.sql<CheckpointRow>`SELECT name, moves, state, is_solved, metrics FROM checkpoints`,
+      attempts: this
+        .sql<EarlierAttemptRow>`SELECT scramble, puzzle, moves, metrics, solved FROM attempts ORDER BY position`,
+    });
+    return { branchId: id };
+  }
+
+  // Called by fork on the new cube. Not callable from clients, which could overwrite any cube with it.
+  startBranch(branch: Branch) {
+    if (!this.#isUnused()) {
+      throw new Error(`The cube ${this.name} is already in use`);
+    }
+    this.#clearTables();
+    this.#writeMoves(0, branch.moves);
+    for (let { move_count, state } of branch.snapshots) {
+      this.sql`INSERT INTO snapshots (move_count, state) VALUES (${move_count}, ${state})`;
+    }
+    for (let { name, moves, state, is_solved, metrics } of branch.checkpoints) {
+      this.sql`
+        INSERT INTO checkpoints (name, moves, state, is_solved, metrics)
+        VALUES (${name}, ${moves}, ${state}, ${is_solved}, ${metrics})
+      `;
+    }
+    for (let { scramble, puzzle, moves, metrics, solved } of branch.attempts) {
+      this.sql`
+        INSERT INTO attempts (scramble, puzzle, moves, metrics, solved)
+        VALUES (${scramble}, ${puzzle}, ${moves}, ${metrics}, ${solved})
+      `;
+    }
+    this.setState(branch.state);
+    return this.state;
+  }
+
+  /**
+   * Every call made to this cube so far, in order, with its time and what it left behind.
+   */
+  @callable()
+  getTranscript(): Transcript {
+    let rows = this.sql<TranscriptRow>`
+      SELECT time, call, args, move_count, is_solved, error FROM transcript ORDER BY position
+    `;
+    let entries = rows.map((row) => ({
+      time: row.time,
+      call: row.call as TranscriptCall,
+      args: JSON.parse(row.args),
+      moveCount: row.move_count,
+      isSolved: row.is_solved === 1,
+      ...(row.error !== null ? { error: row.error } : {}),
+    }));
+    return { version: 1, cubeId: this.name, entries };
+  }
+
+  /**
+   * @param format - "json" (default), to replay with replayTranscript, or "text" to read
+   */
+  @callable()
+  exportTranscript(format: TranscriptFormat = "json"): string {
+    return export_transcript(this.getTranscript(), format);
+  }
+
+  // Called by the MCP server's deleteCube tool, and not callable from clients. The cube is emptied rather
+  // than destroyed: destroying it would drop the tables the constructor made, and the next call to a cube of
+  // the same name on this instance would fail. An attempt under way is given up, as when the cube is replaced.
+  erase() {
+    this.#reportAttempt();
+    this.#clearTables();
+    this.sql`DELETE FROM transcript`;
+    this.sql`DELETE FROM attempts`;
+    this.sql`DELETE FROM solves`;
+    this.#saveSnapshot(0, this.initialState.currentState);
+    this.setState(this.initialState);
+  }
+
+  /**
+   * Makes the calls of a transcript again, in order, on this cube, which has to be fresh. Calls that failed
+   * are expected to fail again. The report lists every call that left the cube differently than before.
+   * The attempts replayed are not reported to the leaderboard, which has them from the original cube.
+   * @param transcript - A transcript, or the JSON of one as written by exportTranscript
+   * @throws Error if the transcript cannot be read, or this cube has been used
+   */
+  @callable()
+  async replayTranscript(transcript: Transcript | string): Promise<ReplayReport> {
+    let { entries } = parse_transcript(transcript);
+    if (!this.#isUnused()) {
+      throw new Error(`Transcripts are replayed onto a fresh cube, but the cube ${this.name} is already in use`);
+    }
+
+    let mismatches: ReplayReport["mismatches"] = [];
+    this.#replaying = true;
+    try {
+      for (let [i, entry] of entries.entries()) {
+        // JSON has no undefined, so arguments left out were written as null
+        let args = entry.args.map((arg) => arg ?? undefined);
+        let error: string | undefined;
+        try {
+          await (this[entry.call] as (...args: unknown[]) => unknown).apply(this, args);
+        } catch (e) {
+          error = e instanceof Error ? e.message : String(e);
+        }
+        let expected = describe_outcome(entry);
+        let actual = describe_outcome({ ...this.state, error });
+        if (actual !== expected) {
+          mismatches.push({ entry: i + 1, call: entry.call, expected, actual });
+        }
+      }
+    } finally {
+      this.#replaying = false;
+    }
+    // Neither is the attempt the replay leaves the cube in, which is a copy too
+    this.setState({ ...this.state, reported: true });
+    return { replayed: entries.length, mismatches };
+  }
+
+  @callable()
+  previewMoveSequence(sequence: string) {
+    return this.#record("previewMoveSequence", [sequence], () => this.#turn(sequence));
+  }
+
+  /**
+   * Looks up a named algorithm, or one of the user's aliases, without applying it.
+   * @throws Error if there is no algorithm by that name
+   */
+  @callable()
+  lookupAlgorithm(name: string): AlgorithmLookup {
+    let algorithm = find_algorithm(name, this.state.aliases);
+    if (!algorithm) {
+      throw new Error(`Unknown algorithm: ${name}`);
+    }
+    return algorithm;
+  }
+
+  /**
+   * Applies a named algorithm, or one of the user's aliases, like applyMoveSequence.
+   * @throws Error if there is no algorithm by that name
+   */
+  @callable()
+  applyAlgorithm(name: string) {
+    return this.#record("applyAlgorithm", [name], () => {
+      let algorithm = this.lookupAlgorithm(name);
+      return { ...this.#applyStep(algorithm.moves, 0), algorithm };
+    });
+  }
+
+  /**
+   * Gives a move sequence, or another algorithm, a name of the user's own. Defining a name again replaces it.
+   * @param target - Moves like "R U R'", or the name of an algorithm or alias
+   * @throws Error if the name belongs to a built-in algorithm or the target is neither a name nor valid moves
+   */
+  @callable()
+  defineAlias(name: string, target: string): AlgorithmLookup {
+    return this.#record("defineAlias", [name, target], () => {
+      let aliases = { ...this.state.aliases };
+      let moves = resolve_alias(name, target, aliases);
+      // Replace an alias written differently, e.g. "my alg" for "My-Alg"
+      let existing = find_algorithm(name, aliases);
+      if (existing?.group === "alias") {
+        delete aliases[existing.name];
+      }
+      aliases[name.trim()] = moves;
+
+      this.setState({ ...this.state, aliases });
+      return this.lookupAlgorithm(name);
+    });
+  }
+
+  /**
+   * @throws Error if the user has no alias by that name
+   */
+  @callable()
+  removeAlias(name: string) {
+    return this.#record("removeAlias", [name], () => {
+      let alias = find_algorithm(name, this.state.aliases);
+      if (alias?.group !== "alias") {
+        throw new Error(`No alias named ${name}`);
+      }
+      let aliases = { ...this.state.aliases };
+      delete aliases[alias.name];
+      this.setState({ ...this.state, aliases });
+      return this.state;
+    });
+  }
+
+  /**
+   * Computes a solution for the current state without applying it.
+   * @param maxLength - Longest solution to accept, in moves, up to 30
+   * @param timeoutMs - How long to search before giving up, up to 10 seconds
+   * @throws Error if maxLength is not a whole number from 1 to 30, or timeoutMs is not a positive number
+   */
+  @callable()
+  solve(maxLength?: number, timeoutMs?: number) {
+    return this.#record("solve", [maxLength, timeoutMs], () => {
+      let longest = maxLength ?? max_solution_length;
+      if (!Number.isInteger(longest) || longest < 1 || longest > max_solution_length) {
+        throw new Error(`maxLength must be a whole number from 1 to ${max_solution_length}, but got ${maxLength}`);
+      }
+      if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+        throw new Error(`timeoutMs must be a positive number, but got ${timeoutMs}`);
+      }
+      // Longer timeouts are cut short
+      timeoutMs = timeoutMs === undefined ? undefined : Math.min(timeoutMs, max_solve_timeout_ms);
+      this.#assertThreeByThree("Solving");
+      let cube = this.#getCurrentCube();
+      let solution = solve_cube(this.#inDefaultColors(cube.getCurrentState()), { maxLength, timeoutMs });
+
+      return {
+        solution: solution.join(" "),
+        length: solution.length,
+      };
+    });
+  }
+
+  /**
+   * Computes a beginner-method solution for the current state, split into stages, without applying it.
+   */
+  @callable()
+  solveBeginner() {
+    return this.#record("solveBeginner", [], () => {
+      this.#assertThreeByThree("The beginner method");
+      let cube = this.#getCurrentCube();
+
+      return solve_beginner(cube.getCurrentState(), this.#getColorScheme()).map((stage) => ({
+        ...stage,
+        moves: stage.moves.join(" "),
+      }));
+    });
+  }
+
+  /**
+   * Returns the state along with how far the current cube has come along the CFOP method, how many moves
+   * this attempt has taken in each metric and how the earlier attempts went. The analysis is null for
+   * puzzles other than the 3x3x3.
+   */
+  @callable()
+  getCubeState(): RubiksCubeState & { analysis: CfopAnalysis | null; metrics: MoveMetrics; attempts: AttemptSummary } {
+    let { currentState } = this.state;
+    let analysis = this.#isThreeByThree() ? analyze_cfop(this.#inDefaultColors(currentState)) : null;
+    return { ...this.state, analysis, metrics: this.#getMetrics(), attempts: this.#summarizeAttempts() };
+  }
+
+  /**
+   * Starts over from a solved cube.
+   * @param size - Size of the new cube, from 2 to 7 (default: the size of the current cube, or 3 after
+   * another puzzle)
+   */
+  @callable()
+  async reset(size?: number) {
+    return this.#record("reset", [size], () => {
+      let { puzzle, solved } = this.#getStart(undefined, size);
+      this.#startAttempt(solved, true, null, puzzle);
+      return this.state;
+    });
+  }
+
+  /**
+   * Starts over from a solved puzzle of another kind.
+   * @param puzzle - "3x3x3", "pyraminx" or "skewb"
+   * @throws Error if there is no such puzzle
+   */
+  @callable()
+  async setPuzzle(puzzle: PuzzleId) {
+    return this.#record("setPuzzle", [puzzle], () => {
+      let start = this.#getStart(puzzle);
+      this.#startAttempt(start.solved, true, null, start.puzzle);
+      return this.state;
+    });
+  }
+
+  /**
+   * Repaints the cube, including its history, in another color scheme. Pieces stay where they are.
+   * @param scheme - "western", "japanese", or the color of each face for a custom scheme
+   */
+  @callable()
+  setColorScheme(scheme: ColorSchemeName | Record<Face, Color>) {
+    return this.#record("setColorScheme", [scheme], () => {
+      let puzzle = this.#getPuzzle();
+      if (puzzle) {
+        throw new Error(`Color schemes are for cubes, and the ${puzzle.definition.name} has its own colors`);
+      }
+      let colorScheme = typeof scheme === "string" ? find_color_scheme(scheme) : make_color_scheme(scheme);
+      if (!colorScheme) {
+        throw new Error(`Unknown color scheme: ${scheme}`);
+      }
+
+      let recolor = (state: string) =>
+        JSON.stringify(recolor_cube(JSON.parse(state), this.#getColorScheme(), colorScheme));
+      for (let { move_count, state } of this.sql<SnapshotRow>`SELECT move_count, state FROM snapshots`) {
+        this.sql`UPDATE snapshots SET state = ${recolor(state)} WHERE move_count = ${move_count}`;
+      }
+      for (let { name, state } of this.sql<CheckpointRow>`SELECT name, state FROM checkpoints`) {
+        this.sql`UPDATE checkpoints SET state = ${recolor(state)} WHERE name = ${name}`;
+      }
+      this.setState({
+        ...this.state,
+        currentState: recolor_cube(this.state.currentState, this.#getColorScheme(), colorScheme),
+        colorScheme,
+      });
+      return this.state;
+    });
+  }
+
+  /**
+   * Hides some stickers from the model: the MCP tools and the images show them as "?". The web client still
+   * shows the whole cube, and the cube itself is unchanged.
+   * @param mask - A preset, faces and stickers to hide, or null to show everything again
+   * @throws Error if the mask names something that does not exist, or the puzzle is not a cube
+   */
+  @callable()
+  setMask(mask: StickerMask | null) {
+    return this.#record("setMask", [mask], () => {
+      let puzzle = this.#getPuzzle();
+      if (puzzle) {
+        throw new Error(`Masks are for cubes, not the ${puzzle.definition.name}`);
+      }
+      let checked = mask ? check_mask(mask) : null;
+      this.setState({ ...this.state, mask: checked && Object.keys(checked).length > 0 ? checked : null });
+      return this.state;
+    });
+  }
+
+  /**
+   * Names who is making the moves, e.g. the model under test, so the leaderboard can tell attempts apart.
+   * @param label - The name, or null for none
+   */
+  @callable()
+  setLabel(label: string | null) {
+    return this.#record("setLabel", [label], () => {
+      this.setState({ ...this.state, label: label?.trim() || null });
+      return this.state;
+    });
+  }
+
+  /**
+   * Starts over from a state pasted in from another tool. A 3x3x3 has to be one that can be solved.
+   * @param state - A facelet string, Singmaster notation or a JSON cube state
+   * @param format - Which of those the state is in (default: worked out from the text)
+   * @throws Error if the state cannot be read, or InvalidCubeError if a 3x3x3 cannot be solved
+   */
+  @callable()
+  setCubeState(state: string, format?: CubeFormat) {
+    return this.#record("setCubeState", [state, format], () => {
+      let cube = import_cube_state(state, this.#getColorScheme(), format);
+      if (cube_size(cube) === 3) {
+        assert_valid_cube(this.#inDefaultColors(cube));
+      }
+      this.#startAttempt(cube, is_solved_cube(cube), null, null);
+      return this.state;
+    });
+  }
+
+  /**
+   * Writes the current state in a format other tools can read.
+   * @param format - "facelets" (default), "singmaster" or "json"
+   * @throws Error if the state cannot be written in that format, e.g. a 4x4x4 in Singmaster notation
+   */
+  @callable()
+  exportCubeState(format: CubeFormat = "facelets"): string {
+    let puzzle = this.#getPuzzle();
+    if (puzzle) {
+      throw new Error(`Cube state formats are for cubes, not the ${puzzle.definition.name}`);
+    }
+    return export_cube_state(this.state.currentState, format, this.#getColorScheme());
+  }
+
+  /**
+   * Starts over from a scrambled cube.
+   * @param numMoves - Length of a random-move scramble, from 1 to 100
+   * @param options.type - "random-move" (default) or "random-state" for a uniformly random state
+   * @param options.seed - Seed to reproduce an earlier scramble; the seed used is stored in the state
+   * @param options.size - Size of the cube, from 2 to 7 (default: the size of the current cube)
+   * @param options.puzzle - Another puzzle to scramble instead, such as "pyraminx" (default: the current one)
+   * @throws Error if numMoves is not a whole number from 1 to 100
+   */
+  @callable()
+  async scramble(
+    numMoves: number = 2,
+    options: { type?: ScrambleType; seed?: number; size?: number; puzzle?: PuzzleId } = {}
+  ) {
+    // The seed used is recorded, so a replay makes the same scramble
+    let recorded = { ...options };
+    return this.#record("scramble", [numMoves, recorded], () => {
+      if (!Number.isInteger(numMoves) || numMoves < 1 || numMoves > max_scramble_moves) {
+        throw new Error(
+          `A scramble must be a whole number of moves from 1 to ${max_scramble_moves}, but got ${numMoves}`
+        );
+      }
+      let start = this.#getStart(options.puzzle, options.size);
+      let { type, seed } = options;
+      let scramble, current, isSolved;
+      if (start.puzzle) {
+        let puzzle = get_puzzle(start.puzzle);
+        scramble = generate_scramble({ type, seed, length: numMoves, puzzle });
+        current = apply_puzzle_moves(puzzle, start.solved, scramble.moves) as Cube;
+        isSolved = is_puzzle_solved(puzzle, current);
+      } else {
+        scramble = generate_scramble({ type, seed, length: numMoves, size: cube_size(start.solved) });
+        let cube = new RubiksCube(scramble.moves.join(" "), start.solved);
+        current = cube.getCurrentState();
+        isSolved = cube.isSolved();
+      }
+      recorded.seed = scramble.seed;
+      this.#startAttempt(current, isSolved, scramble, start.puzzle);
+      return this.state;
+    });
+  }
+
+  /**
+   * Starts inspection of a freshly scrambled cube. The solve starts with the first move, or with
+   * startTimer; starting it after 15 seconds costs 2 seconds, and after 17 seconds it is a DNF.
+   * @throws Error if a solve is already under way, or the cube is not freshly scrambled
+   */
+  @callable()
+  startInspection() {
+    return this.#record("startInspection", [], () => {
+      if (this.state.timer) {
+        throw new Error("A timed solve is already under way");
+      }
+      this.#assertReadyToSolve();
+      this.setState({ ...this.state, timer: { inspectionStartedAt: Date.now(), startedAt: null, penalty: "none" } });
+      return this.state;
+    });
+  }
+
+  /**
+   * Starts the time of a solve, ending inspection if it is under way. The time stops by itself when a move
+   * solves the cube.
+   * @throws Error if the time is already running, or the cube is not freshly scrambled
+   */
+  @callable()
+  startTimer() {
+    return this.#record("startTimer", [], () => {
+      if (this.state.timer?.startedAt) {
+        throw new Error("The timer is already running");
+      }
+      this.#assertReadyToSolve();
+      this.#startSolve();
+      return this.state;
+    });
+  }
+
+  /**
+   * Gives up the solve under way, which counts as a DNF.
+   * @throws Error if there is no solve under way
+   */
+  @callable()
+  stopTimer(): RubiksCubeState & { solve: Solve } {
+    return this.#record("stopTimer", [], () => {
+      if (!this.state.timer) {
+        throw new Error("There is no timed solve under way");
+      }
+      let solve = this.#finishSolve("DNF");
+      return { ...this.state, solve };
+    });
+  }
+
+  /**
+   * Changes the penalty of a solve, as a judge would.
+   * @param penalty - "none", "+2" or "DNF"
+   * @param solve - The number of the solve in the session, from 1 (default: the last one)
+   * @throws Error if there is no such solve or penalty
+   */
+  @callable()
+  setPenalty(penalty: Penalty, solve?: number) {
+    return this.#record("setPenalty", [penalty, solve], () => {
+      if (!penalties.includes(penalty)) {
+        throw new Error(`Unknown penalty: ${penalty} (the penalties are ${penalties.join(", ")})`);
+      }
+      let positions = this.sql<{ position: number }>`SELECT position FROM solves ORDER BY position`;
+      if (positions.length === 0) {
+        throw new Error("There are no solves yet");
+      }
+      let number = solve ?? positions.length;
+      if (!Number.isInteger(number) || number < 1 || number > positions.length) {
+        throw new Error(`The solve must be a whole number from 1 to ${positions.length}, but got ${number}`);
+      }
+      this.sql`UPDATE solves SET penalty = ${penalty} WHERE position = ${positions[number - 1].position}`;
+      return this.getSession();
+    });
+  }
+
+  /**
+   * Every timed solve of the session, oldest first, with the best, mo3, ao5 and ao12.
+   */
+  @callable()
+  getSession(): { timer: Timer | null; solves: Solve[]; stats: SessionStats } {
+    let solves = this.#readSolves();
+    return { timer: this.state.timer ?? null, solves, stats: session_stats(solves) };
+  }
+
+  /**
+   * Starts a new session, forgetting the solves of this one. A solve under way carries on.
+   */
+  @callable()
+  clearSession() {
+    return this.#record("clearSession", [], () => {
+      this.sql`DELETE FROM solves`;
+      return this.getSession();
+    });
+  }
+}
+
+// The attempts of one model, as counted by SQL; solved_moves is a JSON array
+type ModelRow = { model: string; attempts: number; solved: number; solved_moves: string };
+
+// Finished attempts of every cube, to compare them; see attemptStats.ts
+export class LeaderboardAgent extends Agent<Env> {
+  // The table is made here rather than in onStart, like the tables of the cubes
+  constructor(ctx: AgentContext, env: Env) {
+    super(ctx, env);
+    this.sql`
+      CREATE TABLE IF NOT EXISTS attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        cube_id TEXT NOT NULL,
+        finished_at INTEGER NOT NULL,
+        puzzle TEXT NOT NULL,
+        scramble_type TEXT NOT NULL,
+        scramble_depth INTEGER NOT NULL,
+        moves INTEGER NOT NULL,
+        solved INTEGER NOT NULL,
+        model TEXT NOT NULL
+      )
+    `;
+    this.sql`CREATE INDEX IF NOT EXISTS attempts_by_time ON attempts (finished_at)`;
+  }
+
+  // Called by the cubes. Not callable from clients, which could make up attempts with it.
+  reportAttempt(report: AttemptReport) {
+    let { cubeId, finishedAt, puzzle, scrambleType, scrambleDepth, moves, solved, model } = report;
+    this.sql`
+      INSERT INTO attempts (cube_id, finished_at, puzzle, scramble_type, scramble_depth, moves, solved, model)
+      VALUES (${cubeId}, ${finishedAt}, ${puzzle}, ${scrambleType}, ${scrambleDepth}, ${moves}, ${solved ? 1 : 0},
+        ${model})
+    `;
+  }
+
+  // Counts the attempts matching the query for each model, with the moves of those solved for the medians
+  #countAttempts(query: AttemptQuery): ModelAttempts[] {
+    let { since = null, until = null, scrambleDepth = null, puzzle = null, model = null } = query;
+    let rows = this.sql<ModelRow>`
+      SELECT model, COUNT(*) AS attempts, SUM(solved) AS solved,
+        json_group_array(moves) FILTER (WHERE solved = 1) AS solved_moves
+      FROM attempts
+      WHERE (${since} IS NULL OR finished_at >= ${since})
+        AND (${until} IS NULL OR finished_at < ${until})
+        AND (${scrambleDepth} IS NULL OR scramble_depth = ${scrambleDepth})
+        AND (${puzzle} IS NULL OR puzzle = ${puzzle})
+        AND (${model} IS NULL OR model = ${model})
+      GROUP BY model
+    `;
+    return rows.map((row) => ({
+      model: row.model,
+      attempts: row.attempts,
+      solved: row.solved,
+      solvedMoves: JSON.parse(row.solved_moves),
+    }));
+  }
+
+  /**
+   * The share of the attempts matching the query that were solved.
+   */
+  @callable()
+  getSuccessRate(query: AttemptQuery = {}): SuccessRate {
+    let { attempts, solved } = all_models(this.#countAttempts(query));
+    return success_rate(attempts, solved);
+  }
+
+  /**
+   * The median number of moves, in HTM, of the solved attempts matching the query.
+   */
+  @callable()
+  getMedianMoves(query: AttemptQuery = {}): { solved: number; medianMoves: number | null } {
+    let { solved, solvedMoves } = all_models(this.#countAttempts(query));
+    return { solved, medianMoves: median_moves(solvedMoves) };
+  }
+
+  /**
+   * Every model with attempts matching the query, best first.
+   */
+  @callable()
+  getLeaderboard(query: AttemptQuery = {}): LeaderboardEntry[] {
+    return leaderboard(this.#countAttempts(query));
+  }
+}
+
+export type RubiksCubeMCPState = {
+  // The cube the tools work on when they are not given one, if there is one yet
+  cubeId: string | null;
+  // The cubes made in this session, oldest first
+  cubes?: SessionCube[];
+};
+
+// A cube is stored under an id, which its URLs use, and known by a name that can be changed
+export type SessionCube = { id: string; name: string };
+
+const cube_id_argument = z
+  .string()
+  .optional()
+  .describe("The id or name of the cube to work on (default: the current cube)");
+
+export class RubiksCubeMCP extends McpAgent<Env, RubiksCubeMCPState> {
+  server = new McpServer({
+    name: "RubiksCube",
+    version: "1.0.0",
+    capabilities: {
+      tools: {},
+    },
+  });
+
+  // Each face is written out row by row, top to bottom and left to right. Other puzzles list each face's
+  // stickers in the order their definition numbers them.
+  static renderCubeState(cube: readonly MaskedSticker[], puzzle?: PuzzleId | null) {
+    if (puzzle) {
+      let start = 0;
+      return get_puzzle(puzzle)
+        .definition.faces.map((face) => `${face.name}: ` + cube.slice(start, (start += face.stickers)).join(" "))
+        .join("\n");
+    }
+    const size = cube_size(cube);
+    return (["U", "R", "F", "D", "L", "B"] as Face[])
+      .map((face) => {
+        const start = sticker_index(size, face, 0, 0);
+        return `${face}: ` + cube.slice(start, start + size * size).join(" ");
+      })
+      .join("\n");
+  }
+
+  // The current state as the model is allowed to see it. Masks only apply to cubes.
+  static visibleCube(state: RubiksCubeState): MaskedSticker[] {
+    return apply_mask(state.currentState, state.puzzle ? null : state.mask);
+  }
+
+  static renderCurrentState(state: RubiksCubeState) {
+    return RubiksCubeMCP.renderCubeState(RubiksCubeMCP.visibleCube(state), state.puzzle);
+  }
+
+  // Whether the model can see every sticker; the analysis and progress would give hidden stickers away
+  static isMasked(state: RubiksCubeState) {
+    return !state.puzzle && !!state.mask;
+  }
+
+  static renderAnalysis(analysis: CfopAnalysis) {
+    return [
+      `Stage: ${analysis.stage}`,
+      `Cross edges solved: ${analysis.crossEdges.length}/4 (${analysis.crossEdges.join(" ") || "none"})`,
+      `F2L pairs solved: ${analysis.f2lPairs.length}/4 (${analysis.f2lPairs.join(" ") || "none"})`,
+      ...(analysis.oll ? [`OLL case: ${analysis.oll}`] : []),
+      ...(analysis.pll ? [`PLL case: ${analysis.pll}`] : []),
+    ].join("\n");
+  }
+
+  // The changes are in brackets, e.g. "Solved edges: 9/12 (+1)"
+  static renderProgress(progress: ProgressReport) {
+    const { before, after, delta, steps } = progress;
+    const change = (n: number) => (n > 0 ? ` (+${n})` : n < 0 ? ` (${n})` : "");
+    let bound = before.lowerBound;
+    const trail = steps.map((step) => `${step.move} ${(bound += step.delta.lowerBound)}`);
+    return [
+      `At least ${after.lowerBound} moves from solved${change(delta.lowerBound)}`,
+      `Solved corners: ${after.solvedCorners}/8${change(delta.solvedCorners)}`,
+      `Solved edges: ${after.solvedEdges}/12${change(delta.solvedEdges)}`,
+      `Misoriented corners: ${after.misorientedCorners}${change(delta.misorientedCorners)}`,
+      `Misoriented edges: ${after.misorientedEdges}${change(delta.misorientedEdges)}`,
+      ...(steps.length > 1 ? [`Moves from solved, at least, after each move: ${trail.join(", ")}`] : []),
+    ].join("\n");
+  }
+
+  static renderMoveResult(
+    state: RubiksCubeState & { progress: ProgressReport | null; sequenceMetrics: MoveMetrics; solve: Solve | null }
+  ) {
+    let text = RubiksCubeMCP.renderCurrentState(state);
+    text += `\n\nMoves applied: ${describe_metrics(state.sequenceMetrics)}`;
+    if (state.metrics) {
+      text += `\nMoves this attempt: ${describe_metrics(state.metrics)}`;
+    }
+    if (state.progress && !RubiksCubeMCP.isMasked(state)) {
+      text += `\n\nProgress:\n${RubiksCubeMCP.renderProgress(state.progress)}`;
+    }
+    if (state.solve) {
+      text += `\n\nSolved! Time: ${describe_solve(state.solve)}`;
+    }
+    return text;
+  }
+
+  // e.g. "Earlier attempts: 3, 2 of them solved (fewest moves: 21 HTM, 24 QTM, 21 STM, 21 ETM)"
+  static renderAttempts({ count, solved, fewest }: AttemptSummary) {
+    return (
+      `Earlier attempts: ${count}, ${solved} of them solved` +
+      (fewest ? ` (fewest moves: ${describe_metrics(fewest)})` : "")
+    );
+  }
+
+  static renderAlgorithm(algorithm: AlgorithmLookup) {
+    return [
+      `${algorithm.name} (${algorithm.group === "alias" ? "your alias" : algorithm.group}): ${algorithm.moves}`,
+      ...(algorithm.description ? [algorithm.description] : []),
+      ...(algorithm.effect ? [`On a solved 3x3x3: ${algorithm.effect}`] : []),
+    ].join("\n");
+  }
+
+  // For an unknown name, lists the built-in names so a model that guessed wrong can pick one that exists
+  static algorithmErrorResult(error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    const names = (group: string) =>
+      algorithm_library.filter((algorithm) => algorithm.group === group).map((algorithm) => algorithm.name);
+    const text = message.startsWith("Unknown algorithm")
+      ? dedent`
+          ${message}
+
+          Triggers: ${names("trigger").join(", ")}
+          F2L: ${names("F2L").join(", ")}
+          OLL: OLL 1 to OLL 57, and Sune, Antisune, H, Pi, Headlights, Chameleon and Bowtie
+          PLL: ${names("PLL").join(", ")}
+        `
+      : `${message}\n\nNo moves were applied.`;
+    return {
+      content: [{ type: "text" as const, text }],
+      isError: true,
+    };
+  }
+
+  // Cycles are written in the order the pieces move, e.g. "(UF UL UR)", with the twist or flip a piece picks
+  // up going once around
+  static renderAlgorithmAnalysis(analysis: AlgorithmAnalysis, layer?: Layer) {
+    const twist = ["", ", twisted clockwise", ", twisted counter-clockwise"];
+    const cycles = (cycles: PieceCycle[], modulus: number) =>
+      cycles
+        .map(({ positions, orientation }) => {
+          const turn = orientation === 0 ? "" : modulus === 3 ? twist[orientation] : ", flipped";
+          return `(${positions.join(" ")})${turn}`;
+        })
+        .join("; ") || "none";
+    const list = (items: string[]) => items.join(" ") || "none";
+    return [
+      `Moves: ${RubiksCubeMCP.renderMoves(analysis.moves)}`,
+      `Length: ${describe_metrics(count_moves(analysis.moves))}`,
+      `Order: ${analysis.order} (repeating it ${analysis.order} times brings the cube back to where it started)`,
+      `Sticker cycles: ${analysis.cycleType.map(({ length, count }) => `${count} of length ${length}`).join(", ") || "none"}`,
+      `Corner cycles: ${cycles(analysis.cornerCycles, 3)}`,
+      `Edge cycles: ${cycles(analysis.edgeCycles, 2)}`,
+      ...(analysis.centerCycles.length > 0 ? [`Center cycles: ${cycles(analysis.centerCycles, 1)}`] : []),
+      `Pieces moved: ${list(analysis.moved)}`,
+      `Corners twisted in place: ${list(analysis.twisted)}`,
+      `Edges flipped in place: ${list(analysis.flipped)}`,
+      `Layers left alone: ${list(analysis.preservedLayers)}`,
+      ...(layer ? [`Preserves the ${layer} layer: ${analysis.preservedLayers.includes(layer) ? "yes" : "no"}`] : []),
+    ].join("\n");
+  }
+
+  static renderNotationError(moves: string, error: MoveNotationError) {
+    return dedent`
+      Invalid move sequence: ${error.message}
+
+      ${moves}
+      ${" ".repeat(error.column - 1)}^
+
+      No moves were applied.
+    `;
+  }
+
+  static notationErrorResult(moves: string, error: unknown) {
+    if (!(error instanceof MoveNotationError)) {
+      throw error;
+    }
+    return {
+      content: [{ type: "text" as const, text: RubiksCubeMCP.renderNotationError(moves, error) }],
+      isError: true,
+    };
+  }
+
+  // Sessions from before cubes had names have just the one cube, named by its id
+  #getCubes(): SessionCube[] {
+    let { cubeId = null, cubes } = this.state ?? {};
+    return cubes ?? (cubeId ? [{ id: cubeId, name: cubeId }] : []);
+  }
+
+  // The cube with that id or name, or the current cube
+  #findCube(cubeId?: string): SessionCube {
+    let cubes = this.#getCubes();
+    if (cubes.length === 0) {
+      throw new Error("There is no cube yet: make one with createCube or getScrambledCube");
+    }
+    let key = (cubeId ?? this.state.cubeId ?? "").trim();
+    let cube =
+      cubes.find((cube) => cube.id === key) ?? cubes.find((cube) => cube.name.toLowerCase() === key.toLowerCase());
+    if (!cube) {
+      throw new Error(`Unknown cube: ${key} (the cubes are ${cubes.map((cube) => cube.name).join(", ")})`);
+    }
+    return cube;
+  }
+
+  async #getCubeAgent(cubeId?: string) {
+    return getAgentByName(this.env.RubiksCubeAgent, this.#findCube(cubeId).id);
+  }
+
+  // A name no other cube has, by id or by name; without one, the next of cube-1, cube-2 and so on
+  #checkName(name: string | undefined, except?: SessionCube): string {
+    let others = this.#getCubes().filter((cube) => cube !== except);
+    let taken = (name: string) =>
+      others.some((cube) => cube.id === name || cube.name.toLowerCase() === name.toLowerCase());
+    if (name === undefined) {
+      let n = others.length + 1;
+      while (taken(`cube-${n}`)) {
+        n++;
+      }
+      return `cube-${n}`;
+    }
+    let trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error("A cube needs a name");
+    }
+    if (taken(trimmed)) {
+      throw new Error(`There is already a cube named ${trimmed}`);
+    }
+    return trimmed;
+  }
+
+  // New cubes are labelled with the name of the MCP client, so the leaderboard can tell clients apart
+  async #labelCube(id: string) {
+    let client = this.server.server.getClientVersion();
+    if (client) {
+      await (await getAgentByName(this.env.RubiksCubeAgent, id)).setLabel(client.name);
+    }
+  }
+
+  #addCube(cube: SessionCube, makeCurrent: boolean = true) {
+    let cubeId = makeCurrent ? cube.id : (this.state?.cubeId ?? null);
+    this.setState({ ...this.state, cubeId, cubes: [...this.#getCubes(), cube] });
+  }
+
+  static renderMoves(moves: string[]) {
+    return moves.length > 0 ? moves.join(" ") : "(no moves - the sequence leaves the cube unchanged)";
+  }
+
+  async init() {
+    const self = this;
+
+    this.server.tool(
+      "getScrambledCube",
+      dedent`
+        Get a scrambled cube
+        By default the cube is one random move away from solved.
+        Use type "random-state" for a uniformly random state, like a competition scramble.
+        Pass the seed of an earlier scramble to get exactly the same scramble again.
+        The cube is painted in the Western color scheme unless colorScheme says otherwise.
+        Pass size for a cube other than the 3x3x3, from 2 (2x2x2) to 7 (7x7x7); random-state needs a 3x3x3.
+        Pass puzzle for another kind of puzzle: "pyraminx" or "skewb", which have their own colors and moves.
+        Without size or puzzle, the same kind of puzzle as before is scrambled.
+      `,
+      {
+        type: z.enum(["random-move", "random-state"]).optional(),
+        moves: z.number().int().min(1).max(max_scramble_moves).optional(),
+        seed: z.number().int().min(0).max(4294967295).optional(),
+        colorScheme: z.enum(["western", "japanese"]).optional(),
+        size: z.number().int().min(min_cube_size).max(max_cube_size).optional(),
+        puzzle: z.enum(puzzle_ids).optional(),
+        cubeId: cube_id_argument,
+      },
+      async ({ type, moves, seed, colorScheme, size, puzzle, cubeId }) => {
+        if (colorScheme && puzzle && puzzle !== "3x3x3") {
+          return {
+            content: [{ type: "text", text: `The ${get_puzzle(puzzle).definition.name} has no color schemes` }],
+            isError: true,
+          };
+        }
+
+        // The first cube of a session is made here
+        let cube;
+        if (cubeId === undefined && self.#getCubes().length === 0) {
+          cube = { id: crypto.randomUUID(), name: self.#checkName(undefined) };
+          self.#addCube(cube);
+          await self.#labelCube(cube.id);
+        } else {
+          cube = self.#findCube(cubeId);
+        }
+        const cubeAgent = await getAgentByName(self.env.RubiksCubeAgent, cube.id);
+        let state;
+        try {
+          state = await cubeAgent.scramble(moves ?? 1, { type, seed, size, puzzle });
+          // Repainting after the scramble, since only cubes have color schemes
+          if (colorScheme) {
+            state = await cubeAgent.setColorScheme(colorScheme);
+          }
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not scramble the cube: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+
+        // The scramble moves are left out on purpose: inverting them would solve the cube
+        const output = dedent`
+          Here is the state of ${cube.name}, a ${state.puzzle ? get_puzzle(state.puzzle).definition.name : "cube"}:
+          ${RubiksCubeMCP.renderCurrentState(state)}
+
+          Scramble: ${state.scramble!.type}, seed ${state.scramble!.seed}
+
+          You can view the cube at the following URLs. Be sure to show these to the user:
+          Interactive 3D view: http://localhost:5173/${cube.id}
+        `;
+
+        return {
+          content: [{ type: "text", text: output }],
+        };
+      }
+    );
+
+    this.server.tool(
+      "createCube",
+      dedent`
+        Make a new solved cube and work on it from then on. Each cube keeps its own moves, history and
+        checkpoints; pass its name or id as cubeId to use it with the other tools.
+        The cube is named name, or cube-1, cube-2 and so on. Pass size for a cube other than the 3x3x3,
+        or puzzle for another kind of puzzle.
+      `,
+      {
+        name: z.string().optional(),
+        size: z.number().int().min(min_cube_size).max(max_cube_size).optional(),
+        puzzle: z.enum(puzzle_ids).optional(),
+      },
+      async ({ name, size, puzzle }) => {
+        if (size !== undefined && puzzle !== undefined) {
+          return {
+            content: [{ type: "text", text: "Pass either size or puzzle, not both" }],
+            isError: true,
+          };
+        }
+        let cube = { id: crypto.randomUUID(), name: self.#checkName(name) };
+        await self.#labelCube(cube.id);
+        let cubeAgent = await getAgentByName(self.env.RubiksCubeAgent, cube.id);
+        let state = puzzle ? await cubeAgent.setPuzzle(puzzle) : await cubeAgent.reset(size);
+        self.#addCube(cube);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: dedent`
+                Made ${cube.name}, a solved ${state.puzzle ? get_puzzle(state.puzzle).definition.name : "cube"}:
+                ${RubiksCubeMCP.renderCurrentState(state)}
+
+                Interactive 3D view: http://localhost:5173/${cube.id}
+              `,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "listCubes",
+      "List the cubes made in this session, with how many moves each has had and whether it is solved.",
+      {},
+      async () => {
+        let cubes = self.#getCubes();
+        if (cubes.length === 0) {
+          return {
+            content: [{ type: "text", text: "There are no cubes yet: make one with createCube or getScrambledCube" }],
+          };
+        }
+        let lines = await Promise.all(
+          cubes.map(async (cube) => {
+            let state = await (await getAgentByName(self.env.RubiksCubeAgent, cube.id)).getCubeState();
+            let kind = state.puzzle
+              ? get_puzzle(state.puzzle).definition.name
+              : `${cube_size(state.currentState)}x${cube_size(state.currentState)}x${cube_size(state.currentState)}`;
+            let current = cube.id === self.state.cubeId ? " (current)" : "";
+            return `${cube.name}${current}: ${kind}, ${state.moveCount} moves, ${state.isSolved ? "solved" : "not solved"} (id ${cube.id})`;
+          })
+        );
+        return { content: [{ type: "text", text: lines.join("\n") }] };
+      }
+    );
+
+    this.server.tool(
+      "renameCube",
+      "Give a cube another name. Its id, and so its URL, stay the same.",
+      { name: z.string(), cubeId: cube_id_argument },
+      async ({ name, cubeId }) => {
+        let cube = self.#findCube(cubeId);
+        let renamed = { ...cube, name: self.#checkName(name, cube) };
+        let cubes = self.#getCubes().map((other) => (other.id === cube.id ? renamed : other));
+        self.setState({ ...self.state, cubeId: self.state.cubeId ?? null, cubes });
+        return { content: [{ type: "text", text: `Renamed ${cube.name} to ${renamed.name}` }] };
+      }
+    );
+
+    this.server.tool(
+      "deleteCube",
+      dedent`
+        Delete a cube with its history, checkpoints and transcript. This cannot be undone.
+        If it was the current cube, the most recently made of the others becomes current.
+      `,
+      { cubeId: cube_id_argument },
+      async ({ cubeId }) => {
+        let cube = self.#findCube(cubeId);
+        let cubeAgent = await getAgentByName(self.env.RubiksCubeAgent, cube.id);
+        await cubeAgent.erase();
+        let cubes = self.#getCubes().filter((other) => other.id !== cube.id);
+        let current = self.state.cubeId === cube.id ? (cubes[cubes.length - 1]?.id ?? null) : self.state.cubeId;
+        self.setState({ ...self.state, cubeId: current, cubes });
+        let next = cubes.find((other) => other.id === current);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Deleted ${cube.name}. ${next ? `The current cube is ${next.name}.` : "There are no cubes left."}`,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "getCubeState",
+      "Get the current state of the cube",
+      { cubeId: cube_id_argument },
+      async ({ cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        let state = await cubeAgent.getCubeState();
+        let size = state.puzzle ? null : cube_size(state.currentState);
+        let title = size
+          ? `${size}x${size}x${size} cube state (${(state.colorScheme ?? default_color_scheme).name} color scheme)`
+          : `${get_puzzle(state.puzzle!).definition.name} state`;
+        // The CFOP analysis is only available for the 3x3x3, and would give away hidden stickers
+        let masked = RubiksCubeMCP.isMasked(state);
+        let progress =
+          state.analysis && !masked
+            ? `\n\nProgress (CFOP method, cross on the D face):\n${RubiksCubeMCP.renderAnalysis(state.analysis)}`
+            : "";
+        let hidden = masked
+          ? `\n\nPart of the cube is hidden (${describe_mask(state.mask!)}); hidden stickers are shown as ?`
+          : "";
+        let attempts = state.attempts.count ? `\n${RubiksCubeMCP.renderAttempts(state.attempts)}` : "";
+        let exploration = [
+          ...(state.redoCount ? [`Moves that can be redone: ${state.redoCount}`] : []),
+          ...(state.checkpoints?.length ? [`Checkpoints: ${state.checkpoints.join(", ")}`] : []),
+          ...(state.forkedFrom ? [`Forked from cube ${state.forkedFrom}`] : []),
+          ...(state.timer
+            ? [`Timed solve: ${state.timer.startedAt === null ? "inspecting" : "the timer is running"}`]
+            : []),
+        ];
+        let branching = exploration.length ? `\n${exploration.join("\n")}` : "";
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: dedent`
+              Here is the ${title}:
+              ${RubiksCubeMCP.renderCurrentState(state)}${hidden}
+              
+              The ${size ? "cube" : "puzzle"} is ${state.isSolved ? "solved" : "not solved"}${progress}
+
+              Moves this attempt: ${describe_metrics(state.metrics)}${branching}${attempts}
+            `,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "applyMoveSequence",
+      dedent`
+        Apply a sequence of moves to the cube
+        The moves are a space-separated list of moves.
+        The moves are case-sensitive and must be one of the following:
+        U, R, F, D, L, B, U', R', F', D', L', B'
+
+        Any move may also be doubled with "2" (e.g. "U2").
+        Slice moves M, E and S turn the middle layers (M follows L, E follows D, S follows F).
+        Wide moves turn a face together with its adjacent slice: r, l, u, d, f, b or Rw, Lw, Uw, Dw, Fw, Bw.
+        Rotations x, y and z turn the whole cube (x follows R, y follows U, z follows F).
+        On bigger cubes a number picks an inner layer: 2R turns only the second layer from R,
+        and 3Rw turns the three layers nearest R. Slice moves M, E and S need an odd-sized cube.
+        A Pyraminx turns with U, L, R and B (a layer around that corner) and u, l, r and b (just the tip);
+        a Skewb with R, U, L and B. Both take ' but not 2, since three turns bring them back.
+
+        Moves on a cube can be grouped:
+        (R U R' U')3 repeats the group three times
+        [R, U] is the commutator R U R' U'
+        [F: R U R' U'] is the conjugate F R U R' U' F'
+
+        Example input: "U R U' R'"
+
+        On a 3x3x3 the result also says how far the cube is from solved and how the moves changed that,
+        so you can tell whether they helped.
+      `,
+      { moves: z.string(), cubeId: cube_id_argument },
+      async ({ moves, cubeId }) => {
+        try {
+          parse_move_sequence(moves);
+        } catch (e) {
+          return RubiksCubeMCP.notationErrorResult(moves, e);
+        }
+
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        let state;
+        try {
+          state = await cubeAgent.applyMoveSequence(moves);
+        } catch (e) {
+          // The notation is valid, but a move turns a layer this cube does not have
+          return {
+            content: [{ type: "text", text: `${e instanceof Error ? e.message : e}\n\nNo moves were applied.` }],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: "text", text: RubiksCubeMCP.renderMoveResult(state) }],
+        };
+      }
+    );
+
+    this.server.tool(
+      "getMoveHistory",
+      dedent`
+        Get the moves made since the cube was last scrambled or reset, oldest first, a page at a time.
+        This does not change the cube.
+      `,
+      {
+        offset: z.number().int().min(0).optional(),
+        limit: z.number().int().min(1).max(1000).optional(),
+        cubeId: cube_id_argument,
+      },
+      async ({ offset, limit, cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        try {
+          let page = await cubeAgent.getHistory(offset, limit);
+          let text =
+            page.moves.length > 0
+              ? `Moves ${page.offset + 1} to ${page.offset + page.moves.length} of ${page.total}: ${page.moves.join(" ")}`
+              : `No moves from ${page.offset + 1} on; ${page.total} moves have been made`;
+          return { content: [{ type: "text", text }] };
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not read the history: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    this.server.tool(
+      "undoMoves",
+      dedent`
+        Take back the last moves, as if they had never been made: they are removed from the move history
+        instead of being undone with their inverses. They can be made again with redoMoves, until other
+        moves are made.
+      `,
+      { count: z.number().int().min(1).optional(), cubeId: cube_id_argument },
+      async ({ count, cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        let state;
+        try {
+          state = await cubeAgent.undo(count);
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not undo: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: dedent`
+                Undid: ${RubiksCubeMCP.renderMoves(state.undone)}
+
+                ${RubiksCubeMCP.renderCurrentState(state)}
+
+                Moves this attempt: ${describe_metrics(state.metrics!)}
+                Moves that can be redone: ${state.redoCount}
+              `,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "redoMoves",
+      "Make moves taken back with undoMoves again, in the order they were first made.",
+      { count: z.number().int().min(1).optional(), cubeId: cube_id_argument },
+      async ({ count, cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        try {
+          return { content: [{ type: "text", text: RubiksCubeMCP.renderMoveResult(await cubeAgent.redo(count)) }] };
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not redo: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    this.server.tool(
+      "saveCheckpoint",
+      dedent`
+        Save the cube and its move history under a name, to come back to with restoreCheckpoint.
+        Saving a name again replaces it. Checkpoints last until the cube is scrambled or reset.
+      `,
+      { name: z.string(), cubeId: cube_id_argument },
+      async ({ name, cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        try {
+          let state = await cubeAgent.saveCheckpoint(name);
+          let names = state.checkpoints ?? [];
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Saved checkpoint ${name.trim()} after ${state.moveCount} moves\nCheckpoints: ${names.join(", ")}`,
+              },
+            ],
+          };
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not save the checkpoint: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+      }
+    );
+
+    this.server.tool(
+      "restoreCheckpoint",
+      dedent`
+        Go back to a checkpoint saved with saveCheckpoint. The moves made since are dropped from the history
+        and cannot be redone; the checkpoint is kept, so it can be restored again.
+      `,
+      { name: z.string(), cubeId: cube_id_argument },
+      async ({ name, cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        let state;
+        try {
+          state = await cubeAgent.restoreCheckpoint(name);
+        } catch (e) {
+          return {
+            content: [
+              { type: "text", text: `Could not restore the checkpoint: ${e instanceof Error ? e.message : e}` },
+            ],
+            isError: true,
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: dedent`
+                Restored checkpoint ${name.trim()}:
+                ${RubiksCubeMCP.renderCurrentState(state)}
+
+                The cube is ${state.isSolved ? "solved" : "not solved"}
 
-  #getCurrentCube(): RubiksCube {
-    return new RubiksCube(this.state.moveHistory.join(" "), this.state.stateHistory[0]);
-  }
+                Moves this attempt: ${describe_metrics(state.metrics!)}
+              `,
+            },
+          ],
+        };
+      }
+    );
 
-  @callable()
-  applyMoveSequence(sequence: string) {
-    let cube = this.#getCurrentCube();
-    cube.applyMoveSequence(sequence);
+    this.server.tool(
+      "forkCube",
+      dedent`
+        Copy a cube, with its history and checkpoints, to a new cube, to try something without changing the
+        original. From then on the tools work on the copy, unless switchToBranch is false. The copy is named
+        name, or cube-2, cube-3 and so on.
+      `,
+      { name: z.string().optional(), switchToBranch: z.boolean().optional(), cubeId: cube_id_argument },
+      async ({ name, switchToBranch = true, cubeId }) => {
+        let original = self.#findCube(cubeId);
+        let branchName = self.#checkName(name);
+        let cubeAgent = await getAgentByName(self.env.RubiksCubeAgent, original.id);
+        let branch;
+        try {
+          branch = { id: (await cubeAgent.fork()).branchId, name: branchName };
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not fork the cube: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+        self.#addCube(branch, switchToBranch);
+        return {
+          content: [
+            {
+              type: "text",
+              text: dedent`
+                Forked ${original.name} into ${branch.name}; the tools now work on ${switchToBranch ? branch.name : self.#findCube().name}.
 
-    this.setState({
-      moveHistory: [...cube.getMoveHistory()],
-      isSolved: cube.isSolved(),
-      stateHistory: [...this.state.stateHistory, cube.getCurrentState()],
-    });
+                Interactive 3D view of the branch: http://localhost:5173/${branch.id}
+              `,
+            },
+          ],
+        };
+      }
+    );
 
-    return this.state;
-  }
+    this.server.tool(
+      "startInspection",
+      dedent`
+        Start a timed solve of a freshly scrambled cube with 15 seconds of inspection, as in a competition.
+        Look at the cube with getCubeState while inspecting. The time starts with your first move, or with
+        startTimer, and stops when a move solves the cube. Starting after 15 seconds costs 2 seconds, and
+        after 17 seconds the solve is a DNF (did not finish).
+      `,
+      { cubeId: cube_id_argument },
+      async ({ cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        try {
+          await cubeAgent.startInspection();
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not start inspection: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+        return { content: [{ type: "text", text: "Inspection has started: you have 15 seconds" }] };
+      }
+    );
 
-  @callable()
-  previewMoveSequence(sequence: string) {
-    let cube = this.#getCurrentCube();
-    cube.applyMoveSequence(sequence);
+    this.server.tool(
+      "startTimer",
+      dedent`
+        Start the time of a timed solve, ending inspection if it is under way. Without inspection, this
+        starts a solve of a freshly scrambled cube straight away. The time stops when a move solves the cube.
+      `,
+      { cubeId: cube_id_argument },
+      async ({ cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        let state;
+        try {
+          state = await cubeAgent.startTimer();
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not start the timer: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+        let penalty = state.timer?.penalty !== "none" ? ` Inspection took too long: ${state.timer?.penalty}.` : "";
+        return { content: [{ type: "text", text: `The timer is running.${penalty}` }] };
+      }
+    );
 
-    return {
-      moveHistory: [...cube.getMoveHistory()],
-      isSolved: cube.isSolved(),
-      stateHistory: [...this.state.stateHistory, cube.getCurrentState()],
-    };
-  }
+    this.server.tool(
+      "stopTimer",
+      "Give up the timed solve under way. It counts as a DNF (did not finish).",
+      { cubeId: cube_id_argument },
+      async ({ cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        let state;
+        try {
+          state = await cubeAgent.stopTimer();
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not stop the timer: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+        return { content: [{ type: "text", text: `Gave up the solve: ${describe_solve(state.solve)}` }] };
+      }
+    );
 
-  @callable()
-  getCubeState() {
-    return this.state;
-  }
+    this.server.tool(
+      "getSessionStats",
+      dedent`
+        Get the times of the timed solves on the cube so far, with the best single, the mean of 3 (mo3) and
+        the averages of 5 and 12 (ao5, ao12), which leave out the fastest and slowest solve.
+        This does not change the cube.
+      `,
+      { cubeId: cube_id_argument },
+      async ({ cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        let session = await cubeAgent.getSession();
+        let times = session.solves.map((solve, i) => `${i + 1}. ${describe_solve(solve)} (${solve.metrics.htm} HTM)`);
+        return {
+          content: [
+            {
+              type: "text",
+              text:
+                session.solves.length > 0
+                  ? `${times.join("\n")}\n\n${describe_stats(session.stats)}`
+                  : "No timed solves yet",
+            },
+          ],
+        };
+      }
+    );
 
-  @callable()
-  async reset() {
-    this.setState({
-      moveHistory: [],
-      isSolved: true,
-      stateHistory: [solved_cube],
-    });
-    return this.state;
-  }
+    this.server.tool(
+      "exportTranscript",
+      dedent`
+        Get every call made to the cube so far, in order and with its time: as "json", which replayTranscript
+        can run again, or as "text" to read (the default).
+        This does not change the cube.
+      `,
+      { format: z.enum(transcript_formats).optional(), cubeId: cube_id_argument },
+      async ({ format = "text", cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        return { content: [{ type: "text", text: await cubeAgent.exportTranscript(format) }] };
+      }
+    );
 
-  @callable()
-  async scramble(numMoves: number = 2) {
-    let cube = new RubiksCube();
-    cube.scramble(numMoves);
-    this.setState({
-      moveHistory: [],
-      isSolved: cube.isSolved(),
-      stateHistory: [cube.getCurrentState()],
-    });
-    return this.state;
-  }
-}
+    this.server.tool(
+      "replayTranscript",
+      dedent`
+        Run the calls of a transcript written by exportTranscript as JSON again, on a new cube, to reproduce
+        a session. The tools then work on the new cube, which is named name, or cube-2, cube-3 and so on. The
+        result lists any call that turned out differently than in the transcript.
+      `,
+      { transcript: z.string(), name: z.string().optional() },
+      async ({ transcript, name }) => {
+        let cube = { id: crypto.randomUUID(), name: self.#checkName(name) };
+        let cubeAgent = await getAgentByName(self.env.RubiksCubeAgent, cube.id);
+        let report;
+        try {
+          report = await cubeAgent.replayTranscript(transcript);
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not replay the transcript: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+        self.#addCube(cube);
+
+        let mismatches = report.mismatches.map(
+          ({ entry, call, expected, actual }) => `- Call ${entry} (${call}): expected ${expected}, got ${actual}`
+        );
+        let outcome =
+          mismatches.length > 0
+            ? `${mismatches.length} call${mismatches.length === 1 ? "" : "s"} turned out differently:\n${mismatches.join("\n")}`
+            : "Every call turned out as in the transcript.";
+        return {
+          content: [
+            {
+              type: "text",
+              text: dedent`
+                Replayed ${report.replayed} calls on ${cube.name}. ${outcome}
 
-export type RubiksCubeMCPState = {
-  cubeId: string;
-};
+                Interactive 3D view: http://localhost:5173/${cube.id}
+              `,
+            },
+          ],
+        };
+      }
+    );
 
-export class RubiksCubeMCP extends McpAgent<Env, RubiksCubeMCPState> {
-  server = new McpServer({
-    name: "RubiksCube",
-    version: "1.0.0",
-    capabilities: {
-      tools: {},
-    },
-  });
+    this.server.tool(
+      "lookupAlgorithm",
+      dedent`
+        Look up a named algorithm: its moves, what it is for and what it does to a solved cube.
+        This does not change the cube.
+        Names are not case-sensitive, e.g. "T perm", "Sune", "OLL 45", "F2L 1" or "sexy move",
+        or a name defined with defineAlgorithmAlias.
+      `,
+      { name: z.string(), cubeId: cube_id_argument },
+      async ({ name, cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        try {
+          return {
+            content: [{ type: "text", text: RubiksCubeMCP.renderAlgorithm(await cubeAgent.lookupAlgorithm(name)) }],
+          };
+        } catch (e) {
+          return RubiksCubeMCP.algorithmErrorResult(e);
+        }
+      }
+    );
 
-  static renderCubeState(cube: Cube) {
-    return (["U", "R", "F", "D", "L", "B"] as Face[])
-      .map((face) => {
-        return (
-          `${face}: ` +
-          cube[S(face, 1)] +
-          " " +
-          cube[S(face, 2)] +
-          " " +
-          cube[S(face, 3)] +
-          " " +
-          cube[S(face, 4)] +
-          " " +
-          cube[S(face, 5)] +
-          " " +
-          cube[S(face, 6)] +
-          " " +
-          cube[S(face, 7)] +
-          " " +
-          cube[S(face, 8)] +
-          " " +
-          cube[S(face, 9)]
-        );
-      })
-      .join("\n");
-  }
+    this.server.tool(
+      "applyAlgorithm",
+      dedent`
+        Apply a named algorithm to the cube, e.g. "T perm", "Sune" or "sexy move",
+        or a name defined with defineAlgorithmAlias. Use lookupAlgorithm to see the moves first.
+      `,
+      { name: z.string(), cubeId: cube_id_argument },
+      async ({ name, cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        try {
+          let state = await cubeAgent.applyAlgorithm(name);
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Applied ${state.algorithm.name}: ${state.algorithm.moves}\n\n${RubiksCubeMCP.renderMoveResult(state)}`,
+              },
+            ],
+          };
+        } catch (e) {
+          return RubiksCubeMCP.algorithmErrorResult(e);
+        }
+      }
+    );
 
-  async init() {
-    const self = this;
+    this.server.tool(
+      "defineAlgorithmAlias",
+      dedent`
+        Give a sequence of moves, or an existing algorithm, a name of your own to use with
+        applyAlgorithm and lookupAlgorithm. Defining a name again replaces it.
+        The names of built-in algorithms cannot be reused.
 
-    this.server.tool("getScrambledCube", "Get a scrambled cube", {}, async () => {
-      const cubeId = self.state?.cubeId ?? crypto.randomUUID();
-      if (!self.state?.cubeId) {
-        self.setState({ cubeId });
+        Example: name "my insert", target "U R U' R'"
+      `,
+      { name: z.string().min(1), target: z.string(), cubeId: cube_id_argument },
+      async ({ name, target, cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        try {
+          let alias = await cubeAgent.defineAlias(name, target);
+          return { content: [{ type: "text", text: `Defined ${RubiksCubeMCP.renderAlgorithm(alias)}` }] };
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not define the alias: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
       }
+    );
 
-      // get the cube agent with that name
-      const cubeAgent = await getAgentByName(self.env.RubiksCubeAgent, cubeId);
-      const state = await cubeAgent.scramble(1);
+    // Solving the cube for the model defeats the point of most experiments, so this tool is opt-in
+    if (self.env.ENABLE_SOLVER_TOOL === "true") {
+      this.server.tool(
+        "solveCube",
+        dedent`
+          Compute a solution for the current cube state using the two-phase algorithm.
+          The solution is returned but not applied; use applyMoveSequence to apply it.
+        `,
+        { maxLength: z.number().int().min(1).max(max_solution_length).optional(), cubeId: cube_id_argument },
+        async ({ maxLength, cubeId }) => {
+          let cubeAgent = await self.#getCubeAgent(cubeId);
+          try {
+            let { solution, length } = await cubeAgent.solve(maxLength);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: length > 0 ? `Solution (${length} moves): ${solution}` : "The cube is already solved",
+                },
+              ],
+            };
+          } catch (e) {
+            return {
+              content: [{ type: "text", text: `Could not solve the cube: ${e instanceof Error ? e.message : e}` }],
+              isError: true,
+            };
+          }
+        }
+      );
+    }
 
-      const output = dedent`
-        Here is the cube state:
-        ${RubiksCubeMCP.renderCubeState(state.stateHistory[state.stateHistory.length - 1])}
+    // Like solveCube, coaching gives the moves away, so it is opt-in
+    if (self.env.ENABLE_COACH_TOOL === "true") {
+      this.server.tool(
+        "getNextStage",
+        dedent`
+          Get the next stage of a beginner layer-by-layer solution for the current cube state:
+          what the stage achieves, how it is done and the moves that do it.
+          The moves are returned but not applied; use applyMoveSequence to apply them.
+        `,
+        { cubeId: cube_id_argument },
+        async ({ cubeId }) => {
+          let cubeAgent = await self.#getCubeAgent(cubeId);
+          try {
+            let stages = await cubeAgent.solveBeginner();
+            let next = stages.findIndex((stage) => stage.moves.length > 0);
+            if (next === -1) {
+              return { content: [{ type: "text", text: "The cube is already solved" }] };
+            }
+
+            let stage = stages[next];
+            let later = stages.slice(next + 1).map((stage) => stage.name);
+            return {
+              content: [
+                {
+                  type: "text",
+                  text: dedent`
+                    Next stage: ${stage.name}
+                    ${stage.explanation}
+
+                    Moves: ${stage.moves}
+
+                    ${later.length > 0 ? `Stages after this one: ${later.join(", ")}` : "This is the last stage."}
+                  `,
+                },
+              ],
+            };
+          } catch (e) {
+            return {
+              content: [{ type: "text", text: `Could not solve the cube: ${e instanceof Error ? e.message : e}` }],
+              isError: true,
+            };
+          }
+        }
+      );
+
+      this.server.prompt("rubiks-cube-coached", "Solve a rubiks cube with a beginner-method coach", {}, async () => {
+        return {
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: dedent`
+                  Let's solve a rubiks cube with the beginner method, one layer at a time!
+
+                  Call "getScrambledCube" to get a cube and show the user the URL it returns so they can follow along.
+
+                  Then work through the solve stage by stage. Before each stage, call "getNextStage" to learn what
+                  the stage achieves and which moves do it. Explain the stage to the user in your own words, apply
+                  its moves with "applyMoveSequence", and check the result against the explanation before moving
+                  on. Repeat until the cube is solved.
+                `,
+              },
+            },
+          ],
+        };
+      });
+    }
 
-        You can view the cube at the following URLs. Be sure to show these to the user:
-        Interactive 3D view: http://localhost:5173/${cubeId}
-      `;
+    this.server.tool(
+      "setCubeState",
+      dedent`
+        Start over from a cube state written by another tool. The format is worked out from the text
+        unless given:
+        - "facelets": Kociemba's facelet string, one face letter per sticker in URFDLB order, e.g.
+          UUUUUUUUURRRRRRRRRFFFFFFFFFDDDDDDDDDLLLLLLLLLBBBBBBBBB for a solved 3x3x3
+        - "singmaster": the piece in each position of a 3x3x3, e.g.
+          UF UR UB UL DF DR DB DL FR FL BR BL UFR URB UBL ULF DRF DFL DLB DBR for a solved cube
+        - "json": a document as written by exportCubeState
+        A 3x3x3 has to be a state that can be solved. The move history starts over.
+      `,
+      { state: z.string(), format: z.enum(cube_formats).optional(), cubeId: cube_id_argument },
+      async ({ state, format, cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        let result;
+        try {
+          result = await cubeAgent.setCubeState(state, format);
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not set the cube state: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+        return {
+          content: [
+            {
+              type: "text",
+              text: dedent`
+                Here is the new cube state:
+                ${RubiksCubeMCP.renderCurrentState(result)}
 
-      return {
-        content: [{ type: "text", text: output }],
-      };
-    });
+                The cube is ${result.isSolved ? "solved" : "not solved"}
+              `,
+            },
+          ],
+        };
+      }
+    );
+
+    this.server.tool(
+      "exportCubeState",
+      dedent`
+        Write the current cube state in a format other tools can read, to save it or paste it elsewhere:
+        "facelets" (Kociemba's facelet string, the default), "singmaster" (3x3x3 piece notation, with U on top
+        and F in front) or "json" (the stickers of every face with the color scheme, as described by the
+        schema at /schema/cube-state.json).
+        This does not change the cube.
+      `,
+      { format: z.enum(cube_formats).optional(), cubeId: cube_id_argument },
+      async ({ format, cubeId }) => {
+        let cubeAgent = await self.#getCubeAgent(cubeId);
+        if (RubiksCubeMCP.isMasked(await cubeAgent.getCubeState())) {
+          return {
+            content: [{ type: "text", text: "The cube is partly hidden, so its full state cannot be exported" }],
+            isError: true,
+          };
+        }
+        try {
+          return { content: [{ type: "text", text: await cubeAgent.exportCubeState(format) }] };
+        } catch (e) {
+          return {
+            content: [{ type: "text", text: `Could not export the cube: ${e instanceof Error ? e.message : e}` }],
+            isError: true,
+          };
+        }
+      }
+    );
 
-    this.server.tool("getCubeState", "Get the current state of the cube", {}, async () => {
-      let cubeAgent = await getAgentByName(self.env.RubiksCubeAgent, self.state.cubeId);
-      let state = await cubeAgent.getCubeState();
+    this.server.tool(
+      "invertSequence",
+      dedent`
+        Get the inverse of a sequence of moves, which undoes it.
+        This does not change the cube.
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: dedent`
-              Here is the cube state:
-              ${RubiksCubeMCP.renderCubeState(state.stateHistory[state.stateHistory.length - 1])}
-              
-              The cube is ${state.isSolved ? "solved" : "not solved"}
-            `,
-          },
-        ],
-      };
-    });
+        Example: "R U F'" becomes "F U' R'"
+      `,
+      { moves: z.string() },
+      async ({ moves }) => {
+        try {
+          return {
+            content: [{ type: "text", text: RubiksCubeMCP.renderMoves(invert_moves(parse_moves(moves))) }],
+          };
+        } catch (e) {
+          return RubiksCubeMCP.notationErrorResult(moves, e);
+        }
+      }
+    );
 
-    // if passing the ID like this doesn't work, then we can store the cube id in the session state
     this.server.tool(
-      "applyMoveSequence",
+      "simplifySequence",
       dedent`
-        Apply a sequence of moves to the cube
-        The moves are a space-separated list of moves.
-        The moves are case-sensitive and must be one of the following:
-        U, R, F, D, L, B, U', R', F', D', L', B'
+        Simplify a sequence of moves by cancelling and merging moves that turn the same layer.
+        This does not change the cube.
 
-        Example input: "U R U' R'"
+        Example: "R R' U" becomes "U", "R L R" becomes "R2 L"
       `,
       { moves: z.string() },
       async ({ moves }) => {
-        let cubeAgent = await getAgentByName(self.env.RubiksCubeAgent, self.state.cubeId);
-        let state = await cubeAgent.applyMoveSequence(moves);
+        try {
+          return {
+            content: [{ type: "text", text: RubiksCubeMCP.renderMoves(simplify_moves(parse_moves(moves))) }],
+          };
+        } catch (e) {
+          return RubiksCubeMCP.notationErrorResult(moves, e);
+        }
+      }
+    );
+
+    this.server.tool(
+      "mirrorSequence",
+      dedent`
+        Get the mirror image of a sequence of moves.
+        Plane "M" swaps left and right, plane "S" swaps front and back.
+        This does not change the cube.
+
+        Example: "R U R'" mirrored across "M" becomes "L' U' L"
+      `,
+      { moves: z.string(), plane: z.enum(["M", "S"]) },
+      async ({ moves, plane }) => {
+        try {
+          return {
+            content: [{ type: "text", text: RubiksCubeMCP.renderMoves(mirror_moves(parse_moves(moves), plane)) }],
+          };
+        } catch (e) {
+          return RubiksCubeMCP.notationErrorResult(moves, e);
+        }
+      }
+    );
+
+    this.server.tool(
+      "composeSequences",
+      dedent`
+        Join several sequences of moves into one, in the order given, and simplify the result.
+        This does not change the cube.
 
+        Example: ["R U", "U' R'"] becomes no moves at all
+      `,
+      { sequences: z.array(z.string()).min(1) },
+      async ({ sequences }) => {
+        const parsed: string[][] = [];
+        for (const moves of sequences) {
+          try {
+            parsed.push(parse_moves(moves));
+          } catch (e) {
+            return RubiksCubeMCP.notationErrorResult(moves, e);
+          }
+        }
         return {
-          content: [
-            {
-              type: "text",
-              text: String(RubiksCubeMCP.renderCubeState(state.stateHistory[state.stateHistory.length - 1])),
-            },
-          ],
+          content: [{ type: "text", text: RubiksCubeMCP.renderMoves(compose_moves(...parsed)) }],
         };
       }
     );
 
-    this.server.prompt("rubiks-cube", "The name of the rubiks cube agent", {}, async () => {
-      return {
-        messages: [
-          {
-            role: "user",
-            content: {
-              type: "text",
-              text: dedent`
+    this.server.tool(
+      "analyzeSequence",
+      dedent`
+        Analyze what a sequence of moves does to a 3x3x3, starting from a solved cube.
+        This does not change the cube.
+        Reports the order (how many repeats bring the cube back), the cycles of stickers, corners, edges and
+        centers, the pieces moved, twisted or flipped, and the layers the sequence leaves alone.
+        Pass layer (U, R, F, D, L, B, M, E or S) to check whether it preserves that layer.
+
+        Example: "R U R' U'" has order 6
+      `,
+      { moves: z.string(), layer: z.enum(layers).optional() },
+      async ({ moves, layer }) => {
+        let parsed;
+        try {
+          parsed = parse_moves(moves);
+        } catch (e) {
+          return RubiksCubeMCP.notationErrorResult(moves, e);
+        }
+        let analysis;
+        try {
+          analysis = analyze_algorithm(parsed);
+        } catch (e) {
+          // The notation is valid, but turns a layer a 3x3x3 does not have
+          return { content: [{ type: "text", text: `${e instanceof Error ? e.message : e}` }], isError: true };
+        }
+        return {
+          content: [{ type: "text", text: RubiksCubeMCP.renderAlgorithmAnalysis(analysis, layer) }],
+        };
+      }
+    );
+
+    this.server.prompt(
+      "rubiks-cube",
+      "The name of the rubiks cube agent",
+      { colorScheme: z.enum(["western", "japanese"]).optional() },
+      async ({ colorScheme }) => {
+        const scheme = color_schemes[colorScheme ?? "western"];
+        return {
+          messages: [
+            {
+              role: "user",
+              content: {
+                type: "text",
+                text: dedent`
                 Let's solve a rubiks cube!
 
                 Each face has 9 positions, numbered as follows:
@@ -243,23 +2660,13 @@ export class RubiksCubeMCP extends McpAgent<Env, RubiksCubeMCPState> {
                            |D7|D8|D9|
                            +--+--+--+
 
-              Color Scheme and Orientation
+              Color Scheme and Orientation (${scheme.name})
 
-              - U (Up/Top): Yellow (Y)
-              - F (Front): Orange (O)
-              - R (Right): Blue (B)
-              - B (Back): Red (R)
-              - L (Left): Green (G)
-              - D (Down/Bottom): White (W)
+              ${describe_color_scheme(scheme)}
 
               A solved cube would be represented as:
 
-              U: Y Y Y Y Y Y Y Y Y
-              F: O O O O O O O O O
-              R: B B B B B B B B B
-              B: R R R R R R R R R
-              L: G G G G G G G G G
-              D: W W W W W W W W W
+              ${RubiksCubeMCP.renderCubeState(solved_cube_for(scheme))}
 
               F: Front face clockwise
               F': Front face counter-clockwise
@@ -283,15 +2690,17 @@ export class RubiksCubeMCP extends McpAgent<Env, RubiksCubeMCPState> {
               <prompt>
                 You are an beginner rubiks cube solver. 
                 
-                You can request a new scrambled cube by calling the "getScrambledCube" tool. This will return a new cube
-                and also a URL to view the cube. Please show this URL to the user so they can follow along.
+                You can request a new scrambled cube by calling the "getScrambledCube" tool with colorScheme
+                "${colorScheme ?? "western"}". This will return a new cube and also a URL to view the cube. Please show
+                this URL to the user so they can follow along.
                 
                 Rubiks cubes do not respond well to random moves. Take your time, make a plan, and think deeply about
                 the moves you are making.
 
                 This scrambled cube will be one move away from the solved state. You need to analyze the cube and make
                 sure you are confident that the move you are making is going to solve the cube. If it doesn't work, you
-                can make the opposite move to undo it. Ex: if you make an F move, you can undo it with an F' move.
+                can take it back with the "undoMoves" tool. Before trying something you are unsure of, you can save a
+                checkpoint with "saveCheckpoint" and go back to it with "restoreCheckpoint".
 
                 At each significant step, show the resulting cube state in the face-based notation so I can follow your
                 solution process.
@@ -300,30 +2709,67 @@ export class RubiksCubeMCP extends McpAgent<Env, RubiksCubeMCPState> {
                 ask for a new scrambled cube. Do not do that! Instead, try to solve the cube from the current state.
               </prompt>
               `,
+              },
             },
-          },
-        ],
-      };
-    });
+          ],
+        };
+      }
+    );
   }
 }
 
+// Render a puzzle that is not a cube flat, each face as a block of its stickers in the order they are numbered
+function renderPuzzleAsSvg(puzzle: Puzzle, state: Cube): string {
+  const width = 600;
+  const height = 300;
+  const { faces } = puzzle.definition;
+  const column = width / faces.length;
+  const perRow = 3;
+  const sticker = Math.min(40, (column - 20) / perRow);
+
+  let svgContent = `
+      <svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">
+        <rect width="${width}" height="${height}" fill="#222" />
+    `;
+  let start = 0;
+  faces.forEach((face, f) => {
+    const left = f * column + (column - perRow * sticker) / 2;
+    svgContent += `
+      <text x="${f * column + column / 2}" y="60" font-family="sans-serif" font-size="16" fill="white" font-weight="bold" text-anchor="middle">${face.name}</text>
+    `;
+    for (let i = 0; i < face.stickers; i++) {
+      const x = left + (i % perRow) * sticker;
+      const y = 80 + Math.floor(i / perRow) * sticker;
+      svgContent += `
+          <rect x="${x}" y="${y}" width="${sticker}" height="${sticker}" fill="${color_hex[state[start + i]] ?? "#888"}" stroke="black" stroke-width="3" />
+        `;
+    }
+    start += face.stickers;
+  });
+  svgContent += `</svg>`;
+
+  return svgContent;
+}
+
 // Render a cube as an SVG in isometric perspective
 async function renderCubeAsSvg(cubeId: string, env: Env): Promise<string> {
   // Get the cube agent with that ID
   const cubeAgent = await getAgentByName(env.RubiksCubeAgent, cubeId);
-  const { stateHistory } = await cubeAgent.getCubeState();
-  const state = stateHistory[stateHistory.length - 1];
-
-  // Define colors for the faces - matching with the client's colorMap
-  const colorMap: Record<string, string> = {
-    W: "#FFFFFF", // White
-    Y: "#FFFF00", // Yellow
-    B: "#0000FF", // Blue
-    G: "#00FF00", // Green
-    R: "#FF0000", // Red
-    O: "#FFA500", // Orange
-  };
+  const { currentState: current, puzzle, mask } = await cubeAgent.getCubeState();
+  if (puzzle) {
+    return renderPuzzleAsSvg(get_puzzle(puzzle), current);
+  }
+  // Hidden stickers are drawn grey
+  const state = apply_mask(current, mask);
+
+  // Each face is n stickers wide, on a cube one unit wide
+  const n = cube_size(current);
+  const middle = (n - 1) / 2;
+  const half = 1 / (2 * n);
+  const strokeWidth = 9 / n;
+
+  // Define colors for the faces - shared with the client
+  const colorMap: Record<string, string> = color_hex;
 
   // SVG dimensions
   const singleWidth = 300;
@@ -361,26 +2807,26 @@ async function renderCubeAsSvg(cubeId: string, env: Env): Promise<string> {
 
   // Draw the top face (U)
   svgContent += `<g id="top-face">`;
-  for (let row = 0; row < 3; row++) {
-    for (let col = 0; col < 3; col++) {
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
       // Convert row/col to 3D coordinates (x, y, z)
-      const x = (col - 1) / 3;
+      const x = (col - middle) / n;
       const y = 0.5;
-      const z = (row - 1) / 3;
+      const z = (row - middle) / n;
 
       // Calculate four corners of the sticker in isometric projection
-      const p1 = project(x - 1 / 6, y, z - 1 / 6, centerX1, centerY1);
-      const p2 = project(x + 1 / 6, y, z - 1 / 6, centerX1, centerY1);
-      const p3 = project(x + 1 / 6, y, z + 1 / 6, centerX1, centerY1);
-      const p4 = project(x - 1 / 6, y, z + 1 / 6, centerX1, centerY1);
+      const p1 = project(x - half, y, z - half, centerX1, centerY1);
+      const p2 = project(x + half, y, z - half, centerX1, centerY1);
+      const p3 = project(x + half, y, z + half, centerX1, centerY1);
+      const p4 = project(x - half, y, z + half, centerX1, centerY1);
 
       // Create a polygon for the sticker
       svgContent += `
           <polygon 
             points="${p1[0]},${p1[1]} ${p2[0]},${p2[1]} ${p3[0]},${p3[1]} ${p4[0]},${p4[1]}" 
-            fill="${colorMap[state[S("U", row * 3 + col + 1)]] ?? "#888"}" 
+            fill="${colorMap[state[sticker_index(n, "U", row, col)]] ?? "#888"}" 
             stroke="black" 
-            stroke-width="3"
+            stroke-width="${strokeWidth}"
           />
         `;
     }
@@ -395,26 +2841,26 @@ async function renderCubeAsSvg(cubeId: string, env: Env): Promise<string> {
 
   // Draw the front face (F)
   svgContent += `<g id="front-face">`;
-  for (let row = 0; row < 3; row++) {
-    for (let col = 0; col < 3; col++) {
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
       // Convert row/col to 3D coordinates (x, y, z)
-      const x = (col - 1) / 3;
-      const y = (1 - row) / 3;
+      const x = (col - middle) / n;
+      const y = (middle - row) / n;
       const z = 0.5;
 
       // Calculate four corners of the sticker in isometric projection
-      const p1_f = project(x - 1 / 6, y - 1 / 6, z, centerX1, centerY1);
-      const p2_f = project(x + 1 / 6, y - 1 / 6, z, centerX1, centerY1);
-      const p3_f = project(x + 1 / 6, y + 1 / 6, z, centerX1, centerY1);
-      const p4_f = project(x - 1 / 6, y + 1 / 6, z, centerX1, centerY1);
+      const p1_f = project(x - half, y - half, z, centerX1, centerY1);
+      const p2_f = project(x + half, y - half, z, centerX1, centerY1);
+      const p3_f = project(x + half, y + half, z, centerX1, centerY1);
+      const p4_f = project(x - half, y + half, z, centerX1, centerY1);
 
       // Create a polygon for the sticker
       svgContent += `
           <polygon 
             points="${p1_f[0]},${p1_f[1]} ${p2_f[0]},${p2_f[1]} ${p3_f[0]},${p3_f[1]} ${p4_f[0]},${p4_f[1]}" 
-            fill="${colorMap[state[S("F", row * 3 + col + 1)]] ?? "#888"}" 
+            fill="${colorMap[state[sticker_index(n, "F", row, col)]] ?? "#888"}" 
             stroke="black" 
-            stroke-width="3"
+            stroke-width="${strokeWidth}"
           />
         `;
     }
@@ -429,26 +2875,26 @@ async function renderCubeAsSvg(cubeId: string, env: Env): Promise<string> {
 
   // Draw the right face (R)
   svgContent += `<g id="right-face">`;
-  for (let row = 0; row < 3; row++) {
-    for (let col = 0; col < 3; col++) {
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
       // Convert row/col to 3D coordinates (x, y, z)
       const x = 0.5;
-      const y = (1 - row) / 3;
-      const z = (1 - col) / 3;
+      const y = (middle - row) / n;
+      const z = (middle - col) / n;
 
       // Calculate four corners of the sticker in isometric projection
-      const p1_r = project(x, y - 1 / 6, z - 1 / 6, centerX1, centerY1);
-      const p2_r = project(x, y - 1 / 6, z + 1 / 6, centerX1, centerY1);
-      const p3_r = project(x, y + 1 / 6, z + 1 / 6, centerX1, centerY1);
-      const p4_r = project(x, y + 1 / 6, z - 1 / 6, centerX1, centerY1);
+      const p1_r = project(x, y - half, z - half, centerX1, centerY1);
+      const p2_r = project(x, y - half, z + half, centerX1, centerY1);
+      const p3_r = project(x, y + half, z + half, centerX1, centerY1);
+      const p4_r = project(x, y + half, z - half, centerX1, centerY1);
 
       // Create a polygon for the sticker
       svgContent += `
           <polygon 
             points="${p1_r[0]},${p1_r[1]} ${p2_r[0]},${p2_r[1]} ${p3_r[0]},${p3_r[1]} ${p4_r[0]},${p4_r[1]}" 
-            fill="${colorMap[state[S("R", row * 3 + col + 1)]] ?? "#888"}" 
+            fill="${colorMap[state[sticker_index(n, "R", row, col)]] ?? "#888"}" 
             stroke="black" 
-            stroke-width="3"
+            stroke-width="${strokeWidth}"
           />
         `;
     }
@@ -468,23 +2914,23 @@ async function renderCubeAsSvg(cubeId: string, env: Env): Promise<string> {
 
   // Draw the down face (D) - using Top face logic
   svgContent += `<g id="down-face">`;
-  for (let row = 0; row < 3; row++) {
-    for (let col = 0; col < 3; col++) {
-      const x = (1 - row) / 3;
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      const x = (middle - row) / n;
       const y = -0.5;
-      const z = (col - 1) / 3;
+      const z = (col - middle) / n;
 
-      const p1 = project(x - 1 / 6, y, z - 1 / 6, centerX2, centerY2);
-      const p2 = project(x + 1 / 6, y, z - 1 / 6, centerX2, centerY2);
-      const p3 = project(x + 1 / 6, y, z + 1 / 6, centerX2, centerY2);
-      const p4 = project(x - 1 / 6, y, z + 1 / 6, centerX2, centerY2);
+      const p1 = project(x - half, y, z - half, centerX2, centerY2);
+      const p2 = project(x + half, y, z - half, centerX2, centerY2);
+      const p3 = project(x + half, y, z + half, centerX2, centerY2);
+      const p4 = project(x - half, y, z + half, centerX2, centerY2);
 
       svgContent += `
           <polygon 
             points="${p1[0]},${p1[1]} ${p2[0]},${p2[1]} ${p3[0]},${p3[1]} ${p4[0]},${p4[1]}" 
-            fill="${colorMap[state[S("D", row * 3 + col + 1)]] ?? "#888"}" 
+            fill="${colorMap[state[sticker_index(n, "D", row, col)]] ?? "#888"}" 
             stroke="black" 
-            stroke-width="3"
+            stroke-width="${strokeWidth}"
           />
         `;
     }
@@ -499,23 +2945,23 @@ async function renderCubeAsSvg(cubeId: string, env: Env): Promise<string> {
 
   // Draw the left face (L) - using Front face logic
   svgContent += `<g id="left-face">`;
-  for (let row = 0; row < 3; row++) {
-    for (let col = 0; col < 3; col++) {
-      const x = (col - 1) / 3;
-      const y = (1 - row) / 3;
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      const x = (col - middle) / n;
+      const y = (middle - row) / n;
       const z = -0.5;
 
-      const p1 = project(x - 1 / 6, y - 1 / 6, z, centerX2, centerY2);
-      const p2 = project(x + 1 / 6, y - 1 / 6, z, centerX2, centerY2);
-      const p3 = project(x + 1 / 6, y + 1 / 6, z, centerX2, centerY2);
-      const p4 = project(x - 1 / 6, y + 1 / 6, z, centerX2, centerY2);
+      const p1 = project(x - half, y - half, z, centerX2, centerY2);
+      const p2 = project(x + half, y - half, z, centerX2, centerY2);
+      const p3 = project(x + half, y + half, z, centerX2, centerY2);
+      const p4 = project(x - half, y + half, z, centerX2, centerY2);
 
       svgContent += `
           <polygon 
             points="${p1[0]},${p1[1]} ${p2[0]},${p2[1]} ${p3[0]},${p3[1]} ${p4[0]},${p4[1]}" 
-            fill="${colorMap[state[S("L", row * 3 + col + 1)]] ?? "#888"}" 
+            fill="${colorMap[state[sticker_index(n, "L", row, col)]] ?? "#888"}" 
             stroke="black" 
-            stroke-width="3"
+            stroke-width="${strokeWidth}"
           />
         `;
     }
@@ -530,23 +2976,23 @@ async function renderCubeAsSvg(cubeId: string, env: Env): Promise<string> {
 
   // Draw the back face (B) - using Right face logic
   svgContent += `<g id="back-face">`;
-  for (let row = 0; row < 3; row++) {
-    for (let col = 0; col < 3; col++) {
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
       const x = -0.5; // Left face coordinate (position where B is drawn)
-      const y = (1 - row) / 3; // Same y mapping as Right face
-      const z = (1 - col) / 3; // Reversed z mapping
+      const y = (middle - row) / n; // Same y mapping as Right face
+      const z = (middle - col) / n; // Reversed z mapping
 
-      const p1 = project(x, y - 1 / 6, z - 1 / 6, centerX2, centerY2);
-      const p2 = project(x, y - 1 / 6, z + 1 / 6, centerX2, centerY2);
-      const p3 = project(x, y + 1 / 6, z + 1 / 6, centerX2, centerY2);
-      const p4 = project(x, y + 1 / 6, z - 1 / 6, centerX2, centerY2);
+      const p1 = project(x, y - half, z - half, centerX2, centerY2);
+      const p2 = project(x, y - half, z + half, centerX2, centerY2);
+      const p3 = project(x, y + half, z + half, centerX2, centerY2);
+      const p4 = project(x, y + half, z - half, centerX2, centerY2);
 
       svgContent += `
           <polygon 
             points="${p1[0]},${p1[1]} ${p2[0]},${p2[1]} ${p3[0]},${p3[1]} ${p4[0]},${p4[1]}" 
-            fill="${colorMap[state[S("B", row * 3 + col + 1)]] ?? "#888"}" 
+            fill="${colorMap[state[sticker_index(n, "B", row, col)]] ?? "#888"}" 
             stroke="black" 
-            stroke-width="3"
+            stroke-width="${strokeWidth}"
           />
         `;
     }
@@ -572,6 +3018,53 @@ export default {
     const url = new URL(request.url);
     const path = url.pathname;
 
+    if (path === "/schema/cube-state.json") {
+      return new Response(JSON.stringify(cube_state_schema, null, 2), {
+        headers: { "Content-Type": "application/schema+json" },
+      });
+    }
+
+    // Route for experiment transcripts, as JSON or with ?format=text
+    if (path.startsWith("/transcript/")) {
+      const cubeId = path.slice(path.lastIndexOf("/") + 1);
+      if (cubeId) {
+        const format = url.searchParams.get("format") === "text" ? "text" : "json";
+        const cubeAgent = await getAgentByName(env.RubiksCubeAgent, cubeId);
+        return new Response(await cubeAgent.exportTranscript(format), {
+          headers: { "Content-Type": format === "json" ? "application/json" : "text/plain; charset=utf-8" },
+        });
+      }
+      return new Response("Invalid cube ID", { status: 400 });
+    }
+
+    // Routes for statistics across every cube, e.g. /stats/success-rate?days=7&depth=1
+    if (path.startsWith("/stats/")) {
+      let query;
+      try {
+        query = parse_attempt_query(url.searchParams);
+      } catch (e) {
+        return new Response(e instanceof Error ? e.message : String(e), { status: 400 });
+      }
+      const board = await getAgentByName(env.Leaderboard, leaderboard_id);
+      let stats;
+      switch (path.slice("/stats/".length)) {
+        case "success-rate":
+          stats = await board.getSuccessRate(query);
+          break;
+        case "median-moves":
+          stats = await board.getMedianMoves(query);
+          break;
+        case "leaderboard":
+          stats = await board.getLeaderboard(query);
+          break;
+        default:
+          return new Response("Not found", { status: 404 });
+      }
+      return new Response(JSON.stringify(stats, null, 2), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     // Route for SVG rendering
     if (path.startsWith("/svg/")) {
       const cubeId = path.slice(path.lastIndexOf("/") + 1);
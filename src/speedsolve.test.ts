@@ -0,0 +1,69 @@
+import {
+  average_of,
+  describe_solve,
+  describe_stats,
+  format_result,
+  inspection_penalty,
+  mean_of,
+  session_stats,
+  worse_penalty,
+} from "./speedsolve";
+import type { Penalty } from "./speedsolve";
+
+const solve = (time: number, penalty: Penalty = "none") => ({ time, penalty });
+
+describe("Speedsolving", () => {
+  test("inspection over 15 seconds should cost 2 seconds, and over 17 a DNF", () => {
+    expect(inspection_penalty(15000)).toBe("none");
+    expect(inspection_penalty(15001)).toBe("+2");
+    expect(inspection_penalty(17000)).toBe("+2");
+    expect(inspection_penalty(17001)).toBe("DNF");
+    expect(worse_penalty("+2", "none")).toBe("+2");
+    expect(worse_penalty("+2", "DNF")).toBe("DNF");
+  });
+
+  test("averages should drop the fastest and slowest, counting a DNF as the slowest", () => {
+    expect(average_of([10000, 12000, 11000, 15000, 9000])).toBe(11000);
+    expect(average_of([10000, 12000, "DNF", 15000, 9000])).toBe(12333);
+    expect(average_of([10000, "DNF", "DNF", 15000, 9000])).toBe("DNF");
+    // Twelve results drop one at each end too
+    expect(average_of([...Array(10).fill(10000), 1000, "DNF"])).toBe(10000);
+    expect(mean_of([10000, 11000, 12000])).toBe(11000);
+    expect(mean_of([10000, 11000, "DNF"])).toBe("DNF");
+  });
+
+  test("should sum up a session, with penalties", () => {
+    const stats = session_stats([
+      solve(12000),
+      solve(10000, "+2"),
+      solve(11000),
+      solve(9000, "DNF"),
+      solve(14000),
+      solve(13000),
+    ]);
+    expect(stats).toEqual({
+      solves: 6,
+      finished: 5,
+      best: 11000,
+      mo3: { current: "DNF", best: 11667 },
+      ao5: { current: 13000, best: 12667 },
+      ao12: { current: null, best: null },
+    });
+    expect(session_stats([]).best).toBeNull();
+    expect(describe_stats(stats).split("\n")).toEqual([
+      "Solves: 6, 5 of them finished",
+      "best: 11.00",
+      "mo3: DNF (best 11.67)",
+      "ao5: 13.00 (best 12.67)",
+      "ao12: -",
+    ]);
+  });
+
+  test("should write times like a timer", () => {
+    expect(format_result(9876)).toBe("9.88");
+    expect(format_result(62345)).toBe("1:02.35");
+    expect(format_result("DNF")).toBe("DNF");
+    expect(describe_solve(solve(10340, "+2"))).toBe("12.34 (+2)");
+    expect(describe_solve(solve(15670, "DNF"))).toBe("DNF (15.67)");
+  });
+});
@@ -0,0 +1,172 @@
+// speedsolve.ts
+//
+// Timed solves, as at a WCA competition. After the scramble comes up to 15 seconds of inspection; starting
+// later than that costs 2 seconds, and more than 17 seconds a DNF (did not finish). The time runs from the
+// start of the solve until the cube is solved. A session of solves is summed up the way speedsolvers do:
+// - best: the fastest single solve
+// - mo3: the mean of 3 solves, which is a DNF if any of them is
+// - ao5, ao12: the mean of 5 or 12 solves without the fastest and the slowest; one DNF counts as the slowest
+//   and is dropped, but two make the average a DNF
+// Each of these is given for the most recent solves and for the best run of solves in the session.
+
+import type { MoveMetrics } from "./moveMetrics";
+import type { PuzzleId } from "./puzzleRegistry";
+import type { Scramble } from "./scramble";
+
+export const penalties = ["none", "+2", "DNF"] as const;
+export type Penalty = (typeof penalties)[number];
+
+// In milliseconds
+export const inspection_time = 15000;
+export const penalty_time = 2000;
+
+export type Solve = {
+  // When the solve ended, in milliseconds since 1970
+  finishedAt: number;
+  scramble: Scramble | null;
+  puzzle: PuzzleId | null;
+  // How long inspection took, or null if the solve was started without it
+  inspection: number | null;
+  // The time on the timer, in milliseconds; a +2 is not added
+  time: number;
+  metrics: MoveMetrics;
+  penalty: Penalty;
+};
+
+// A time in milliseconds, penalty included
+export type Result = number | "DNF";
+
+// The most recent of each statistic and the best in the session, or null if there are too few solves
+export type Statistic = { current: Result | null; best: Result | null };
+
+export type SessionStats = {
+  solves: number;
+  // Solves that were not a DNF
+  finished: number;
+  best: Result | null;
+  mo3: Statistic;
+  ao5: Statistic;
+  ao12: Statistic;
+};
+
+/**
+ * The penalty for an inspection that took so many milliseconds.
+ */
+export function inspection_penalty(inspection: number): Penalty {
+  if (inspection <= inspection_time) {
+    return "none";
+  }
+  return inspection <= inspection_time + penalty_time ? "+2" : "DNF";
+}
+
+/**
+ * The worse of two penalties, e.g. a DNF after a +2 for a slow inspection.
+ */
+export function worse_penalty(a: Penalty, b: Penalty): Penalty {
+  return penalties.indexOf(a) >= penalties.indexOf(b) ? a : b;
+}
+
+export function solve_result(solve: Pick<Solve, "time" | "penalty">): Result {
+  switch (solve.penalty) {
+    case "none":
+      return solve.time;
+    case "+2":
+      return solve.time + penalty_time;
+    case "DNF":
+      return "DNF";
+  }
+}
+
+// Sorts fastest first, with DNFs last
+function compare_results(a: Result, b: Result): number {
+  if (a === "DNF" || b === "DNF") {
+    return (a === "DNF" ? 1 : 0) - (b === "DNF" ? 1 : 0);
+  }
+  return a - b;
+}
+
+export function mean_of(results: readonly Result[]): Result {
+  if (results.includes("DNF")) {
+    return "DNF";
+  }
+  return Math.round((results as number[]).reduce((a, b) => a + b, 0) / results.length);
+}
+
+/**
+ * The WCA average of some results: the mean once the fastest and slowest 5% of them, at least one each,
+ * are dropped.
+ */
+export function average_of(results: readonly Result[]): Result {
+  const trim = Math.ceil(results.length / 20);
+  const sorted = [...results].sort(compare_results);
+  return mean_of(sorted.slice(trim, sorted.length - trim));
+}
+
+// The statistic of the last count results, and the best of it over every run of count results in a row
+function rolling(results: Result[], count: number, statistic: (results: readonly Result[]) => Result): Statistic {
+  if (results.length < count) {
+    return { current: null, best: null };
+  }
+  const runs = results.slice(count - 1).map((_, i) => statistic(results.slice(i, i + count)));
+  return { current: runs[runs.length - 1], best: [...runs].sort(compare_results)[0] };
+}
+
+/**
+ * Sums up a session of solves, oldest first.
+ */
+export function session_stats(solves: readonly Pick<Solve, "time" | "penalty">[]): SessionStats {
+  const results = solves.map(solve_result);
+  return {
+    solves: results.length,
+    finished: results.filter((result) => result !== "DNF").length,
+    best: results.length > 0 ? [...results].sort(compare_results)[0] : null,
+    mo3: rolling(results, 3, mean_of),
+    ao5: rolling(results, 5, average_of),
+    ao12: rolling(results, 12, average_of),
+  };
+}
+
+/**
+ * Writes a result in seconds to the hundredth, with minutes from a minute on, e.g. "9.87" or "1:02.35".
+ */
+export function format_result(result: Result | null): string {
+  if (result === null) {
+    return "-";
+  }
+  if (result === "DNF") {
+    return "DNF";
+  }
+  const hundredths = Math.round(result / 10);
+  const minutes = Math.floor(hundredths / 6000);
+  const seconds = ((hundredths % 6000) / 100).toFixed(2);
+  return minutes > 0 ? `${minutes}:${seconds.padStart(5, "0")}` : seconds;
+}
+
+/**
+ * e.g. "12.34 (+2)" or "DNF (15.67)"
+ */
+export function describe_solve(solve: Pick<Solve, "time" | "penalty">): string {
+  switch (solve.penalty) {
+    case "none":
+      return format_result(solve.time);
+    case "+2":
+      return `${format_result(solve_result(solve))} (+2)`;
+    case "DNF":
+      return `DNF (${format_result(solve.time)})`;
+  }
+}
+
+/**
+ * Writes the statistics one to a line, e.g. "ao5: 12.34 (best 11.02)".
+ */
+export function describe_stats(stats: SessionStats): string {
+  const statistic = (name: string, { current, best }: Statistic) =>
+    `${name}: ${format_result(current)}${best !== null ? ` (best ${format_result(best)})` : ""}`;
+  return [
+    `Solves: ${stats.solves}, ${stats.finished} of them finished`,
+    `best: ${format_result(stats.best)}`,
+    statistic("mo3", stats.mo3),
+    statistic("ao5", stats.ao5),
+    statistic("ao12", stats.ao12),
+  ].join("\n");
+}
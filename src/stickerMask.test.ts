@@ -0,0 +1,48 @@
+import { apply_mask, check_mask, describe_mask, hidden_stickers } from "./stickerMask";
+import { RubiksCube, S, solved_cube } from "./rubiksCube";
+import { default_color_scheme, solved_cube_for } from "./colorScheme";
+
+describe("Sticker masks", () => {
+  test("the visible faces preset should show only U, F and R", () => {
+    const masked = apply_mask(solved_cube, { preset: "visible-faces" });
+    expect(masked.filter((sticker) => sticker === "?")).toHaveLength(27);
+    expect(masked.slice(S("U", 1), S("U", 9) + 1)).toEqual(Array(9).fill("Y"));
+    expect(masked[S("D", 5)]).toBe("?");
+    expect(masked[S("L", 1)]).toBe("?");
+  });
+
+  test("the last layer preset should show the U face and the top row of each side", () => {
+    const cube = new RubiksCube("R U R'").getCurrentState();
+    const masked = apply_mask(cube, { preset: "last-layer" });
+    expect(masked.filter((sticker) => sticker !== "?")).toHaveLength(9 + 4 * 3);
+    for (const face of ["R", "F", "L", "B"] as const) {
+      expect(masked.slice(S(face, 1), S(face, 3) + 1)).toEqual(cube.slice(S(face, 1), S(face, 3) + 1));
+      expect(masked[S(face, 4)]).toBe("?");
+    }
+    expect(hidden_stickers({ preset: "last-layer" }, 4).size).toBe(6 * 16 - 16 - 4 * 4);
+  });
+
+  test("should hide chosen faces and stickers on any size", () => {
+    const masked = apply_mask(solved_cube_for(default_color_scheme, 2), {
+      hiddenFaces: ["B"],
+      hiddenStickers: [0, 200],
+    });
+    expect(masked.join("")).toBe("?YYYRRRRBBBBWWWWOOOO????");
+    expect(apply_mask(solved_cube, null)).toEqual(solved_cube);
+  });
+
+  test("should check masks and say what they hide", () => {
+    expect(check_mask({ hiddenFaces: ["D", "D"], hiddenStickers: [5, 1, 5] })).toEqual({
+      hiddenFaces: ["D"],
+      hiddenStickers: [1, 5],
+    });
+    expect(() => check_mask({ preset: "corners" as never })).toThrow("Unknown mask preset: corners");
+    expect(() => check_mask({ hiddenFaces: ["X" as never] })).toThrow("Unknown faces in mask: X");
+    expect(() => check_mask({ hiddenStickers: [-1, 294] })).toThrow("but got -1, 294");
+    expect(describe_mask({ preset: "last-layer", hiddenStickers: [1, 2] })).toBe(
+      "only the U layer is visible; 2 other stickers are hidden"
+    );
+    expect(describe_mask({ hiddenFaces: ["D"] })).toBe("the D face is hidden");
+    expect(describe_mask({})).toBe("nothing is hidden");
+  });
+});
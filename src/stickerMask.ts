@@ -0,0 +1,114 @@
+// stickerMask.ts
+//
+// Hides some of a cube's stickers, to test how well a model reasons with what it cannot see. A mask names
+// faces and stickers to hide, or a preset such as only the faces visible from one corner. Hidden stickers
+// are shown as "?" by every renderer; the cube itself is never changed.
+
+import { cube_size, max_cube_size, sticker_index } from "./nxnCube";
+import type { Cube, Face, Sticker } from "./rubiksCube";
+
+export const unknown_sticker = "?";
+
+export type MaskedSticker = Sticker | typeof unknown_sticker;
+
+export const mask_presets = ["visible-faces", "last-layer"] as const;
+// "visible-faces": only U, F and R, the faces seen from the corner between them
+// "last-layer": only the U layer, the U face and the top row of each side
+export type MaskPreset = (typeof mask_presets)[number];
+
+export type StickerMask = {
+  preset?: MaskPreset;
+  hiddenFaces?: Face[];
+  // Sticker indices as in S() on a 3x3x3, or sticker_index on other sizes; ignored on cubes too small for them
+  hiddenStickers?: number[];
+};
+
+const faces: Face[] = ["U", "R", "F", "D", "L", "B"];
+
+function preset_hidden(preset: MaskPreset, size: number): number[] {
+  // The stickers of a face, from a row down
+  const rows = (face: Face, from: number = 0) =>
+    Array.from({ length: (size - from) * size }, (_, i) =>
+      sticker_index(size, face, from + Math.floor(i / size), i % size)
+    );
+  switch (preset) {
+    case "visible-faces":
+      return [...rows("D"), ...rows("L"), ...rows("B")];
+    case "last-layer":
+      return [...rows("D"), ...(["R", "F", "L", "B"] as Face[]).flatMap((face) => rows(face, 1))];
+  }
+}
+
+/**
+ * The indices of the stickers a mask hides on a cube of the given size.
+ */
+export function hidden_stickers(mask: Readonly<StickerMask>, size: number): Set<number> {
+  const area = size * size;
+  const hidden = new Set<number>(mask.preset ? preset_hidden(mask.preset, size) : []);
+  for (const face of mask.hiddenFaces ?? []) {
+    const start = faces.indexOf(face) * area;
+    for (let i = start; i < start + area; i++) {
+      hidden.add(i);
+    }
+  }
+  for (const i of mask.hiddenStickers ?? []) {
+    if (i < 6 * area) {
+      hidden.add(i);
+    }
+  }
+  return hidden;
+}
+
+/**
+ * The cube as the mask lets it be seen, with "?" for every hidden sticker.
+ */
+export function apply_mask(cube: Readonly<Cube>, mask: Readonly<StickerMask> | null | undefined): MaskedSticker[] {
+  if (!mask) {
+    return [...cube];
+  }
+  const hidden = hidden_stickers(mask, cube_size(cube));
+  return cube.map((sticker, i) => (hidden.has(i) ? unknown_sticker : sticker));
+}
+
+/**
+ * Checks a mask and drops repeated faces and stickers.
+ * @throws Error if the mask names a preset, face or sticker that does not exist
+ */
+export function check_mask(mask: Readonly<StickerMask>): StickerMask {
+  if (mask.preset !== undefined && !mask_presets.includes(mask.preset)) {
+    throw new Error(`Unknown mask preset: ${mask.preset} (the presets are ${mask_presets.join(", ")})`);
+  }
+  const unknownFaces = (mask.hiddenFaces ?? []).filter((face) => !faces.includes(face));
+  if (unknownFaces.length > 0) {
+    throw new Error(`Unknown faces in mask: ${unknownFaces.join(", ")}`);
+  }
+  const largest = 6 * max_cube_size * max_cube_size;
+  const badStickers = (mask.hiddenStickers ?? []).filter((i) => !Number.isInteger(i) || i < 0 || i >= largest);
+  if (badStickers.length > 0) {
+    throw new Error(
+      `Sticker indices in a mask must be whole numbers from 0 to ${largest - 1}, but got ${badStickers.join(", ")}`
+    );
+  }
+  return {
+    ...(mask.preset ? { preset: mask.preset } : {}),
+    ...(mask.hiddenFaces?.length ? { hiddenFaces: [...new Set(mask.hiddenFaces)] } : {}),
+    ...(mask.hiddenStickers?.length ? { hiddenStickers: [...new Set(mask.hiddenStickers)].sort((a, b) => a - b) } : {}),
+  };
+}
+
+/**
+ * Says what a mask hides, e.g. "only the U layer is visible; 2 other stickers are hidden".
+ */
+export function describe_mask(mask: Readonly<StickerMask>): string {
+  const parts = [
+    ...(mask.preset === "visible-faces" ? ["only U, F and R are visible"] : []),
+    ...(mask.preset === "last-layer" ? ["only the U layer is visible"] : []),
+    ...(mask.hiddenFaces?.length
+      ? [`the ${mask.hiddenFaces.join(", ")} face${mask.hiddenFaces.length === 1 ? " is" : "s are"} hidden`]
+      : []),
+    ...(mask.hiddenStickers?.length
+      ? [`${mask.hiddenStickers.length} other sticker${mask.hiddenStickers.length === 1 ? " is" : "s are"} hidden`]
+      : []),
+  ];
+  return parts.join("; ") || "nothing is hidden";
+}
@@ -0,0 +1,53 @@
+import { describe_outcome, export_transcript, parse_transcript, render_transcript } from "./transcript";
+import type { Transcript } from "./transcript";
+
+const transcript: Transcript = {
+  version: 1,
+  cubeId: "experiment-1",
+  entries: [
+    {
+      time: Date.UTC(2025, 2, 14, 12),
+      call: "scramble",
+      args: [1, { type: "random-move", seed: 42 }],
+      moveCount: 0,
+      isSolved: false,
+    },
+    { time: Date.UTC(2025, 2, 14, 12) + 12345, call: "applyMoveSequence", args: ["R"], moveCount: 1, isSolved: true },
+    {
+      time: Date.UTC(2025, 2, 14, 12) + 20000,
+      call: "redo",
+      args: [1],
+      moveCount: 1,
+      isSolved: true,
+      error: "There are no moves to redo",
+    },
+  ],
+};
+
+describe("Transcripts", () => {
+  test("should write each call on a line with its time and outcome", () => {
+    expect(render_transcript(transcript).split("\n")).toEqual([
+      "Transcript of cube experiment-1, 3 calls from 2025-03-14T12:00:00.000Z",
+      '+0.000s scramble(1, {"type":"random-move","seed":42}) -> 0 moves, not solved',
+      '+12.345s applyMoveSequence("R") -> 1 move, solved',
+      "+20.000s redo(1) -> failed: There are no moves to redo",
+    ]);
+    expect(render_transcript({ ...transcript, entries: [] })).toBe("Transcript of cube experiment-1: no calls yet");
+    expect(describe_outcome({ moveCount: 2, isSolved: false })).toBe("2 moves, not solved");
+  });
+
+  test("should read back a transcript written as JSON", () => {
+    expect(parse_transcript(export_transcript(transcript, "json"))).toEqual(transcript);
+    expect(parse_transcript(JSON.parse(export_transcript(transcript, "json")))).toEqual(transcript);
+  });
+
+  test("should reject documents that are not transcripts", () => {
+    expect(() => parse_transcript("{ nope")).toThrow("not valid JSON");
+    expect(() => parse_transcript({ version: 1 })).toThrow("a list of entries");
+    expect(() => parse_transcript({ ...transcript, version: 2 })).toThrow("Unknown transcript version: 2");
+    const fork = { ...transcript.entries[1], call: "fork" };
+    expect(() => parse_transcript({ ...transcript, entries: [fork] })).toThrow("Entry 1 is not a call");
+    const timeless = { ...transcript.entries[1], time: undefined };
+    expect(() => parse_transcript({ ...transcript, entries: [timeless] })).toThrow("Entry 1 needs a time");
+  });
+});
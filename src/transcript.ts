@@ -0,0 +1,129 @@
+// transcript.ts
+//
+// A record of everything done to a cube, in order and with the time of each call, so an experiment can be
+// looked over afterwards and run again. Each entry holds the call's arguments as the agent used them, with
+// any random seed filled in, so replaying the entries on a fresh cube makes the same moves and the same
+// mistakes. Reads that change nothing, such as getCubeState, are left out.
+
+export const transcript_calls = [
+  "scramble",
+  "reset",
+  "setPuzzle",
+  "setCubeState",
+  "setColorScheme",
+  "setMask",
+  "setLabel",
+  "applyMoveSequence",
+  "previewMoveSequence",
+  "applyAlgorithm",
+  "defineAlias",
+  "removeAlias",
+  "undo",
+  "redo",
+  "saveCheckpoint",
+  "restoreCheckpoint",
+  "solve",
+  "solveBeginner",
+  "startInspection",
+  "startTimer",
+  "stopTimer",
+  "setPenalty",
+  "clearSession",
+] as const;
+export type TranscriptCall = (typeof transcript_calls)[number];
+
+export type TranscriptEntry = {
+  // When the call was made, in milliseconds since 1970
+  time: number;
+  call: TranscriptCall;
+  args: unknown[];
+  // The cube after the call
+  moveCount: number;
+  isSolved: boolean;
+  // The error the call failed with, if it did
+  error?: string;
+};
+
+export type Transcript = {
+  version: 1;
+  cubeId: string;
+  entries: TranscriptEntry[];
+};
+
+// How a replay went: the number of calls made again, and those that left the cube differently than the
+// first time, numbered from 1
+export type ReplayReport = {
+  replayed: number;
+  mismatches: { entry: number; call: TranscriptCall; expected: string; actual: string }[];
+};
+
+export const transcript_formats = ["json", "text"] as const;
+export type TranscriptFormat = (typeof transcript_formats)[number];
+
+/**
+ * What a call left behind, e.g. "12 moves, not solved" or "failed: There are no moves to undo".
+ */
+export function describe_outcome(entry: Pick<TranscriptEntry, "moveCount" | "isSolved" | "error">): string {
+  if (entry.error !== undefined) {
+    return `failed: ${entry.error}`;
+  }
+  return `${entry.moveCount} move${entry.moveCount === 1 ? "" : "s"}, ${entry.isSolved ? "solved" : "not solved"}`;
+}
+
+/**
+ * Writes a transcript out one call per line, with the seconds since the first call, e.g.
+ * `+12.345s applyMoveSequence("R U R'") -> 3 moves, not solved`.
+ */
+export function render_transcript(transcript: Transcript): string {
+  const { entries } = transcript;
+  if (entries.length === 0) {
+    return `Transcript of cube ${transcript.cubeId}: no calls yet`;
+  }
+  const start = entries[0].time;
+  const lines = entries.map((entry) => {
+    const args = entry.args.map((arg) => JSON.stringify(arg)).join(", ");
+    const seconds = ((entry.time - start) / 1000).toFixed(3);
+    return `+${seconds}s ${entry.call}(${args}) -> ${describe_outcome(entry)}`;
+  });
+  const started = new Date(start).toISOString();
+  return [`Transcript of cube ${transcript.cubeId}, ${entries.length} calls from ${started}`, ...lines].join("\n");
+}
+
+export function export_transcript(transcript: Transcript, format: TranscriptFormat): string {
+  return format === "json" ? JSON.stringify(transcript, null, 2) : render_transcript(transcript);
+}
+
+/**
+ * Reads a transcript written by export_transcript as JSON, or the document parsed from it.
+ * @throws Error naming the first part that is not a transcript
+ */
+export function parse_transcript(input: unknown): Transcript {
+  let document = input;
+  if (typeof input === "string") {
+    try {
+      document = JSON.parse(input);
+    } catch (e) {
+      throw new Error(`The transcript is not valid JSON: ${(e as Error).message}`);
+    }
+  }
+  const transcript = document as Partial<Transcript> | null;
+  if (typeof transcript !== "object" || transcript === null || !Array.isArray(transcript.entries)) {
+    throw new Error("A transcript is a JSON object with a list of entries");
+  }
+  if (transcript.version !== 1) {
+    throw new Error(`Unknown transcript version: ${transcript.version}`);
+  }
+
+  transcript.entries.forEach((entry: Partial<TranscriptEntry>, i) => {
+    if (!transcript_calls.includes(entry.call as TranscriptCall)) {
+      throw new Error(`Entry ${i + 1} is not a call that can be replayed: ${entry.call}`);
+    }
+    if (!Array.isArray(entry.args) || typeof entry.time !== "number") {
+      throw new Error(`Entry ${i + 1} needs a time and a list of arguments`);
+    }
+    if (typeof entry.moveCount !== "number" || typeof entry.isSolved !== "boolean") {
+      throw new Error(`Entry ${i + 1} needs the move count and whether the cube was solved after it`);
+    }
+  });
+  return { version: 1, cubeId: String(transcript.cubeId ?? ""), entries: transcript.entries };
+}
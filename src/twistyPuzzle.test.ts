@@ -0,0 +1,77 @@
+import {
+  apply_puzzle_moves,
+  compile_puzzle,
+  cycles_to_permutation,
+  is_puzzle_solved,
+  parse_puzzle_moves,
+  permutation_to_cycles,
+  random_puzzle_scramble,
+} from "./twistyPuzzle";
+import type { PuzzleDefinition } from "./twistyPuzzle";
+import { seeded_random } from "./random";
+
+// Four stickers in a ring: A turns them a quarter, B swaps the first two
+const ring: PuzzleDefinition = {
+  id: "ring",
+  name: "Ring",
+  faces: [
+    { name: "Top", stickers: 2 },
+    { name: "Bottom", stickers: 2 },
+  ],
+  solved: ["W", "W", "Y", "Y"],
+  moves: { A: [[0, 1, 2, 3]], B: [[0, 1]] },
+};
+
+describe("Twisty puzzles", () => {
+  test("cycles and permutations should convert both ways", () => {
+    expect(cycles_to_permutation(4, [[0, 1, 2]])).toEqual([2, 0, 1, 3]);
+    expect(permutation_to_cycles([2, 0, 1, 3])).toEqual([[0, 1, 2]]);
+    expect(permutation_to_cycles([0, 1, 2])).toEqual([]);
+  });
+
+  test("should compile modifiers from each move's order", () => {
+    const puzzle = compile_puzzle(ring);
+    expect([...puzzle.permutations.keys()]).toEqual(["A", "A'", "A2", "B", "B'"]);
+    expect(apply_puzzle_moves(puzzle, ["a", "b", "c", "d"], ["A"])).toEqual(["d", "a", "b", "c"]);
+    expect(apply_puzzle_moves(puzzle, ["a", "b", "c", "d"], ["A'"])).toEqual(["b", "c", "d", "a"]);
+    expect(apply_puzzle_moves(puzzle, ["a", "b", "c", "d"], ["A2"])).toEqual(["c", "d", "a", "b"]);
+    expect(apply_puzzle_moves(puzzle, ["a", "b", "c", "d"], ["B", "B'"])).toEqual(["a", "b", "c", "d"]);
+  });
+
+  test("should reject inconsistent definitions", () => {
+    expect(() => compile_puzzle({ ...ring, solved: ["W"] })).toThrow("Ring: 1 solved stickers for 4 positions");
+    expect(() => compile_puzzle({ ...ring, moves: { A: [[0, 4]] } })).toThrow("move A has stickers out of range");
+    expect(() =>
+      compile_puzzle({
+        ...ring,
+        moves: {
+          A: [
+            [0, 1],
+            [1, 2],
+          ],
+        },
+      })
+    ).toThrow("in more than one cycle");
+  });
+
+  test("should parse only the moves a puzzle has", () => {
+    const puzzle = compile_puzzle(ring);
+    expect(parse_puzzle_moves(puzzle, " A  B' A2 ")).toEqual(["A", "B'", "A2"]);
+    expect(() => parse_puzzle_moves(puzzle, "A B2 C")).toThrow("Invalid move for the Ring: B2, C (the moves are A, B)");
+  });
+
+  test("should be solved when every face shows one color", () => {
+    const puzzle = compile_puzzle(ring);
+    expect(is_puzzle_solved(puzzle, ring.solved)).toBe(true);
+    expect(is_puzzle_solved(puzzle, apply_puzzle_moves(puzzle, ring.solved, ["A"]))).toBe(false);
+    expect(is_puzzle_solved(puzzle, apply_puzzle_moves(puzzle, ring.solved, ["A2"]))).toBe(true);
+  });
+
+  test("random scrambles should never turn the same move twice in a row", () => {
+    const puzzle = compile_puzzle(ring);
+    const scramble = random_puzzle_scramble(puzzle, 20, seeded_random(7));
+    expect(scramble).toHaveLength(20);
+    expect(parse_puzzle_moves(puzzle, scramble.join(" "))).toEqual(scramble);
+    scramble.slice(1).forEach((move, i) => expect(move[0]).not.toBe(scramble[i][0]));
+  });
+});
@@ -0,0 +1,174 @@
+// twistyPuzzle.ts
+//
+// A permutation engine for any twisty puzzle that can be described by its stickers. A definition lists the
+// faces, the color of every sticker when solved, and each move as cycles of sticker indices. Compiling a
+// definition turns every move, and its inverse and double where they differ, into a permutation once, so
+// applying a move is a single lookup per sticker.
+
+import type { Random } from "./random";
+
+export type PuzzleDefinition = {
+  id: string;
+  name: string;
+  // The faces in the order their stickers are stored, with the number of stickers on each
+  faces: { name: string; stickers: number }[];
+  // The color of every sticker when solved, face after face
+  solved: string[];
+  // One clockwise turn of each move, as cycles: the sticker at cycle[0] moves to cycle[1], and so on
+  moves: Record<string, number[][]>;
+};
+
+export type Puzzle = {
+  definition: PuzzleDefinition;
+  // Every move the puzzle accepts, with its modifiers ("R", "R'", "R2"): the sticker that ends up at index i
+  // comes from index permutation[i]
+  permutations: Map<string, number[]>;
+};
+
+export function sticker_count(definition: PuzzleDefinition): number {
+  return definition.faces.reduce((total, face) => total + face.stickers, 0);
+}
+
+/**
+ * The permutation for cycles of sticker indices, in the same form as move_permutation.
+ */
+export function cycles_to_permutation(size: number, cycles: number[][]): number[] {
+  const permutation = Array.from({ length: size }, (_, i) => i);
+  for (const cycle of cycles) {
+    cycle.forEach((from, i) => {
+      permutation[cycle[(i + 1) % cycle.length]] = from;
+    });
+  }
+  return permutation;
+}
+
+/**
+ * The cycles of a permutation, leaving out stickers that stay where they are.
+ */
+export function permutation_to_cycles(permutation: readonly number[]): number[][] {
+  // Where each sticker goes, rather than where it comes from
+  const destination: number[] = [];
+  permutation.forEach((from, to) => (destination[from] = to));
+
+  const seen = new Set<number>();
+  const cycles: number[][] = [];
+  for (let start = 0; start < permutation.length; start++) {
+    if (seen.has(start) || destination[start] === start) {
+      continue;
+    }
+    const cycle: number[] = [];
+    for (let i = start; !seen.has(i); i = destination[i]) {
+      seen.add(i);
+      cycle.push(i);
+    }
+    cycles.push(cycle);
+  }
+  return cycles;
+}
+
+function compose(first: readonly number[], second: readonly number[]): number[] {
+  return second.map((from) => first[from]);
+}
+
+function order(permutation: readonly number[]): number {
+  let power = [...permutation];
+  let n = 1;
+  while (power.some((from, i) => from !== i)) {
+    power = compose(power, permutation);
+    n++;
+  }
+  return n;
+}
+
+/**
+ * Checks a definition and compiles its moves. Moves that take three turns to come back, like the tips of a
+ * Pyraminx, get a prime; moves that take four also get a double.
+ * @throws Error if the definition is inconsistent: stickers missing, out of range or in two cycles of a move
+ */
+export function compile_puzzle(definition: PuzzleDefinition): Puzzle {
+  const size = sticker_count(definition);
+  if (definition.solved.length !== size) {
+    throw new Error(`${definition.name}: ${definition.solved.length} solved stickers for ${size} positions`);
+  }
+
+  const permutations = new Map<string, number[]>();
+  for (const [name, cycles] of Object.entries(definition.moves)) {
+    const stickers = cycles.flat();
+    if (
+      stickers.some((i) => !Number.isInteger(i) || i < 0 || i >= size) ||
+      new Set(stickers).size !== stickers.length
+    ) {
+      throw new Error(`${definition.name}: move ${name} has stickers out of range or in more than one cycle`);
+    }
+
+    const quarter = cycles_to_permutation(size, cycles);
+    const n = order(quarter);
+    let inverse = quarter;
+    for (let i = 2; i < n; i++) {
+      inverse = compose(inverse, quarter);
+    }
+    permutations.set(name, quarter);
+    permutations.set(`${name}'`, inverse);
+    if (n === 4) {
+      permutations.set(`${name}2`, compose(quarter, quarter));
+    }
+  }
+  return { definition, permutations };
+}
+
+/**
+ * Splits a sequence like "R U' r" into moves.
+ * @throws Error if a move is not one the puzzle has
+ */
+export function parse_puzzle_moves(puzzle: Puzzle, sequence: string): string[] {
+  const moves = sequence.split(/\s+/).filter((move) => move.length > 0);
+  const invalid = moves.filter((move) => !puzzle.permutations.has(move));
+  if (invalid.length > 0) {
+    const names = Object.keys(puzzle.definition.moves).join(", ");
+    throw new Error(`Invalid move for the ${puzzle.definition.name}: ${invalid.join(", ")} (the moves are ${names})`);
+  }
+  return moves;
+}
+
+/**
+ * @throws Error if a move is not one the puzzle has
+ */
+export function apply_puzzle_moves(puzzle: Puzzle, state: readonly string[], moves: readonly string[]): string[] {
+  return moves.reduce<string[]>((current, move) => {
+    const permutation = puzzle.permutations.get(move);
+    if (!permutation) {
+      throw new Error(`Invalid move for the ${puzzle.definition.name}: ${move}`);
+    }
+    return permutation.map((from) => current[from]);
+  }, state as string[]);
+}
+
+/**
+ * A puzzle is solved when every face shows a single color.
+ */
+export function is_puzzle_solved(puzzle: Puzzle, state: readonly string[]): boolean {
+  let start = 0;
+  return puzzle.definition.faces.every(({ stickers }) => {
+    const face = state.slice(start, (start += stickers));
+    return face.every((sticker) => sticker === face[0]);
+  });
+}
+
+/**
+ * Draws random moves, never turning the same move twice in a row.
+ */
+export function random_puzzle_scramble(puzzle: Puzzle, numMoves: number, random: Random = Math.random): string[] {
+  const names = Object.keys(puzzle.definition.moves);
+  const moves: string[] = [];
+  let last = "";
+  while (moves.length < numMoves) {
+    const name = names[Math.floor(random() * names.length)];
+    if (name === last) {
+      continue;
+    }
+    const modifiers = ["", "'", ...(puzzle.permutations.has(`${name}2`) ? ["2"] : [])];
+    moves.push(`${name}${modifiers[Math.floor(random() * modifiers.length)]}`);
+    last = name;
+  }
+  return moves;
+}
@@ -0,0 +1,82 @@
+import { NoSolutionError, solve_cube } from "./twoPhaseSolver";
+import { InvalidCubeError } from "./cubeValidation";
+import { RubiksCube, S, solved_cube } from "./rubiksCube";
+
+const scrambles = [
+  "R U R' U'",
+  "D2 F' R2 U B2 L' F2 D' R U2 B' L2 D F R' U' L B2 D2 R F' U2 L' B D",
+  "U' L2 F2 R' D B' U2 R2 F L' D2 B U R' F2 D' L U2 B2 R D' F L2 U B'",
+  "M2 E S' x y2 z' r U2 f b' Dw",
+];
+
+function expectSolves(scramble: string, solution: string[]) {
+  const cube = new RubiksCube(scramble);
+  cube.applyMoveSequence(solution.join(" "));
+  expect(cube.isSolved()).toBe(true);
+}
+
+describe("solve_cube", () => {
+  test("should return no moves for a solved cube", () => {
+    expect(solve_cube(solved_cube)).toEqual([]);
+  });
+
+  test("should solve scrambled cubes within the default length", () => {
+    scrambles.forEach((scramble) => {
+      const solution = solve_cube(new RubiksCube(scramble).getCurrentState());
+      expect(solution.length).toBeLessThanOrEqual(22);
+      expectSolves(scramble, solution);
+    });
+  });
+
+  test("should find short solutions for short scrambles", () => {
+    expect(solve_cube(new RubiksCube("R").getCurrentState())).toEqual(["R'"]);
+    expect(solve_cube(new RubiksCube("F2 U'").getCurrentState())).toEqual(["U", "F2"]);
+  });
+
+  test("should start with a rotation when the centers have moved", () => {
+    const solution = solve_cube(new RubiksCube("x R").getCurrentState());
+    expect(solution[0]).toMatch(/^[xyz]/);
+    expectSolves("x R", solution);
+  });
+
+  test("should respect a shorter maximum length", () => {
+    const scramble = "R U R' U' F2 D";
+    const solution = solve_cube(new RubiksCube(scramble).getCurrentState(), { maxLength: 8 });
+    expect(solution.length).toBeLessThanOrEqual(8);
+    expectSolves(scramble, solution);
+  });
+
+  test("should report when no solution is short enough", () => {
+    expect(() => solve_cube(new RubiksCube(scrambles[1]).getCurrentState(), { maxLength: 4 })).toThrow(
+      new NoSolutionError("No solution of at most 4 moves exists")
+    );
+  });
+
+  test("should give up when the time budget runs out", () => {
+    let now = 0;
+    const spy = jest.spyOn(Date, "now").mockImplementation(() => (now += 1000));
+    try {
+      expect(() =>
+        solve_cube(new RubiksCube(scrambles[2]).getCurrentState(), { maxLength: 16, timeoutMs: 500 })
+      ).toThrow(NoSolutionError);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  test("should give up after visiting as many positions as it may", () => {
+    const cube = new RubiksCube(scrambles[2]).getCurrentState();
+    expect(() => solve_cube(cube, { maxLength: 16, maxNodes: 1000 })).toThrow(
+      new NoSolutionError("No solution of at most 16 moves found within 1000 positions")
+    );
+    // Bounded by positions alone, the same cube always gets the same solution
+    const bounded = { timeoutMs: Infinity, maxNodes: 1_000_000 };
+    expect(solve_cube(cube, bounded)).toEqual(solve_cube(cube, bounded));
+  });
+
+  test("should reject a cube that cannot be solved", () => {
+    const cube = [...solved_cube];
+    [cube[S("U", 8)], cube[S("F", 2)]] = [cube[S("F", 2)], cube[S("U", 8)]];
+    expect(() => solve_cube(cube)).toThrow(InvalidCubeError);
+  });
+});
@@ -0,0 +1,450 @@
+// twoPhaseSolver.ts
+//
+// Kociemba's two-phase algorithm. Phase 1 turns the cube into the subgroup G1 = <U, D, R2, L2, F2, B2>,
+// where every corner and edge is oriented and the E-slice edges are in the E slice. Phase 2 solves the cube
+// using only moves from G1. Both phases are IDA* searches over small coordinates of the cubie cube, guided
+// by pruning tables that give a lower bound on the moves still needed.
+
+import { apply_moves_to_cube, find_upright_rotation } from "./rubiksCube";
+import type { Cube } from "./rubiksCube";
+import { apply_move_to_cubies, apply_moves_to_cubies, cube_to_cubies, solved_cubies } from "./cubieCube";
+import type { CubieCube } from "./cubieCube";
+import { assert_valid_cube } from "./cubeValidation";
+
+export type SolveOptions = {
+  // Longest solution to accept, in half-turn moves (default: 22)
+  maxLength?: number;
+  // Give up after searching for this many milliseconds, not counting the first build of the tables
+  // (default: 5000)
+  timeoutMs?: number;
+  // Give up after visiting this many positions in the search (default: no limit). Unlike the timeout, this
+  // gives up at the same point every time, so the result depends only on the cube.
+  maxNodes?: number;
+};
+
+export class NoSolutionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NoSolutionError";
+  }
+}
+
+// Moves are numbered face * 3 + (quarter turns - 1), faces in URFDLB order
+const move_names = ["U", "R", "F", "D", "L", "B"].flatMap((face) => [face, `${face}2`, `${face}'`]);
+
+// U, U2, U', R2, F2, D, D2, D', L2, B2
+const phase2_moves = [0, 1, 2, 4, 7, 9, 10, 11, 13, 16];
+
+const N_MOVES = move_names.length;
+const N_PHASE2_MOVES = phase2_moves.length;
+const N_TWIST = 2187; // 3^7 corner orientations
+const N_FLIP = 2048; // 2^11 edge orientations
+const N_SLICE = 495; // 12 choose 4 positions of the E-slice edges
+const N_PERM8 = 40320; // 8! permutations of the corners, or of the U/D edges in phase 2
+const N_SLICE_PERM = 24; // 4! permutations of the E-slice edges in phase 2
+
+function binomial(n: number, k: number): number {
+  if (k > n) {
+    return 0;
+  }
+  let result = 1;
+  for (let i = 0; i < k; i++) {
+    result = (result * (n - i)) / (i + 1);
+  }
+  return result;
+}
+
+function get_twist(co: number[]): number {
+  let twist = 0;
+  for (let i = 0; i < 7; i++) {
+    twist = twist * 3 + co[i];
+  }
+  return twist;
+}
+
+function set_twist(twist: number): number[] {
+  const co = new Array(8);
+  let sum = 0;
+  for (let i = 6; i >= 0; i--) {
+    co[i] = twist % 3;
+    sum += co[i];
+    twist = Math.floor(twist / 3);
+  }
+  co[7] = (3 - (sum % 3)) % 3;
+  return co;
+}
+
+function get_flip(eo: number[]): number {
+  let flip = 0;
+  for (let i = 0; i < 11; i++) {
+    flip = flip * 2 + eo[i];
+  }
+  return flip;
+}
+
+function set_flip(flip: number): number[] {
+  const eo = new Array(12);
+  let sum = 0;
+  for (let i = 10; i >= 0; i--) {
+    eo[i] = flip % 2;
+    sum += eo[i];
+    flip = Math.floor(flip / 2);
+  }
+  eo[11] = sum % 2;
+  return eo;
+}
+
+// Which 4 of the 12 edge positions hold E-slice edges (FR, FL, BL, BR are 8..11), 0 when they are in the slice
+function get_slice(ep: number[]): number {
+  let slice = 0;
+  let found = 0;
+  for (let j = 11; j >= 0; j--) {
+    if (ep[j] >= 8) {
+      slice += binomial(11 - j, found + 1);
+      found++;
+    }
+  }
+  return slice;
+}
+
+function set_slice(slice: number): number[] {
+  const ep = new Array(12).fill(0);
+  let remaining = 4;
+  for (let j = 0; j < 12 && remaining > 0; j++) {
+    const c = binomial(11 - j, remaining);
+    if (slice >= c) {
+      ep[j] = 8;
+      slice -= c;
+      remaining--;
+    }
+  }
+  return ep;
+}
+
+// Lehmer code of a permutation of 0..n-1
+function get_perm(perm: number[]): number {
+  let index = 0;
+  for (let i = 0; i < perm.length; i++) {
+    let smaller = 0;
+    for (let j = i + 1; j < perm.length; j++) {
+      if (perm[j] < perm[i]) {
+        smaller++;
+      }
+    }
+    index = index * (perm.length - i) + smaller;
+  }
+  return index;
+}
+
+function set_perm(index: number, n: number): number[] {
+  const digits = new Array(n);
+  for (let i = n - 1; i >= 0; i--) {
+    digits[i] = index % (n - i);
+    index = Math.floor(index / (n - i));
+  }
+  const available = Array.from({ length: n }, (_, i) => i);
+  return digits.map((digit) => available.splice(digit, 1)[0]);
+}
+
+type Tables = {
+  twistMove: Uint16Array;
+  flipMove: Uint16Array;
+  sliceMove: Uint16Array;
+  cornerPermMove: Uint16Array;
+  edgePermMove: Uint16Array;
+  slicePermMove: Uint8Array;
+  sliceTwistPrune: Int8Array;
+  sliceFlipPrune: Int8Array;
+  cornerPermPrune: Int8Array;
+  edgePermPrune: Int8Array;
+};
+
+// Decodes each coordinate once, then records the coordinate reached by each move
+function build_move_table<T>(
+  size: number,
+  moves: CubieCube[],
+  decode: (coord: number) => T,
+  apply: (state: T, move: CubieCube) => number
+) {
+  const table = new Uint16Array(size * moves.length);
+  for (let coord = 0; coord < size; coord++) {
+    const state = decode(coord);
+    moves.forEach((move, m) => {
+      table[coord * moves.length + m] = apply(state, move);
+    });
+  }
+  return table;
+}
+
+// Breadth-first search from the solved state over pairs of coordinates, recording each pair's distance
+function build_pruning_table(
+  sizeA: number,
+  moveA: ArrayLike<number>,
+  sizeB: number,
+  moveB: ArrayLike<number>,
+  nMoves: number
+): Int8Array {
+  const table = new Int8Array(sizeA * sizeB).fill(-1);
+  table[0] = 0;
+  let depth = 0;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let a = 0, i = 0; a < sizeA; a++) {
+      for (let b = 0; b < sizeB; b++, i++) {
+        if (table[i] !== depth) {
+          continue;
+        }
+        for (let m = 0; m < nMoves; m++) {
+          const j = moveA[a * nMoves + m] * sizeB + moveB[b * nMoves + m];
+          if (table[j] === -1) {
+            table[j] = depth + 1;
+            changed = true;
+          }
+        }
+      }
+    }
+    depth++;
+  }
+  return table;
+}
+
+// Building the tables takes a moment, so they are created on first use and kept for the life of the isolate
+let cached_tables: Tables | null = null;
+
+function get_tables(): Tables {
+  if (cached_tables) {
+    return cached_tables;
+  }
+
+  const moves = move_names.map((name) => apply_move_to_cubies(solved_cubies, name));
+  const moves2 = phase2_moves.map((m) => moves[m]);
+
+  const twistMove = build_move_table(N_TWIST, moves, set_twist, (co, move) =>
+    get_twist(move.cp.map((from, i) => (co[from] + move.co[i]) % 3))
+  );
+  const flipMove = build_move_table(N_FLIP, moves, set_flip, (eo, move) =>
+    get_flip(move.ep.map((from, i) => (eo[from] + move.eo[i]) % 2))
+  );
+  const sliceMove = build_move_table(N_SLICE, moves, set_slice, (ep, move) =>
+    get_slice(move.ep.map((from) => ep[from]))
+  );
+  const cornerPermMove = build_move_table(
+    N_PERM8,
+    moves2,
+    (perm) => set_perm(perm, 8),
+    (cp, move) => get_perm(move.cp.map((from) => cp[from]))
+  );
+  const edgePermMove = build_move_table(
+    N_PERM8,
+    moves2,
+    (perm) => [...set_perm(perm, 8), 8, 9, 10, 11],
+    (ep, move) => get_perm(move.ep.slice(0, 8).map((from) => ep[from]))
+  );
+  const slicePermMove = new Uint8Array(
+    build_move_table(
+      N_SLICE_PERM,
+      moves2,
+      (perm) => [0, 1, 2, 3, 4, 5, 6, 7, ...set_perm(perm, 4).map((e) => e + 8)],
+      (ep, move) => get_perm(move.ep.slice(8).map((from) => ep[from] - 8))
+    )
+  );
+
+  cached_tables = {
+    twistMove,
+    flipMove,
+    sliceMove,
+    cornerPermMove,
+    edgePermMove,
+    slicePermMove,
+    sliceTwistPrune: build_pruning_table(N_SLICE, sliceMove, N_TWIST, twistMove, N_MOVES),
+    sliceFlipPrune: build_pruning_table(N_SLICE, sliceMove, N_FLIP, flipMove, N_MOVES),
+    cornerPermPrune: build_pruning_table(N_SLICE_PERM, slicePermMove, N_PERM8, cornerPermMove, N_PHASE2_MOVES),
+    edgePermPrune: build_pruning_table(N_SLICE_PERM, slicePermMove, N_PERM8, edgePermMove, N_PHASE2_MOVES),
+  };
+  return cached_tables;
+}
+
+/**
+ * A lower bound on the number of face turns that solve an upright cube, read from the phase 1 pruning tables.
+ * The solved cube is in the subgroup phase 1 ends in, so no solution can be shorter than the shortest phase 1.
+ */
+export function distance_lower_bound(cubies: Readonly<CubieCube>): number {
+  const { sliceTwistPrune, sliceFlipPrune } = get_tables();
+  const twist = get_twist(cubies.co);
+  const flip = get_flip(cubies.eo);
+  const slice = get_slice(cubies.ep);
+  return Math.max(sliceTwistPrune[slice * N_TWIST + twist], sliceFlipPrune[slice * N_FLIP + flip]);
+}
+
+// Thrown when the search runs out of time, or of positions to visit, which the message then counts
+class OutOfBudget extends Error {}
+
+// Searches phase 1 solutions in order of length. Every phase 1 solution of the length where the first one is
+// found gets a phase 2, and the shortest total wins: the first one found is often far from the best, e.g.
+// R is solved by R' but the search tries R (+ R2, which phase 2 may not start with) first.
+class Search {
+  private readonly tables = get_tables();
+  private readonly phase1: number[] = [];
+  private readonly phase2: number[] = [];
+  private best: number[] | null = null;
+  private nodes = 0;
+
+  constructor(
+    private readonly cubies: CubieCube,
+    private readonly maxLength: number,
+    private readonly deadline: number,
+    private readonly maxNodes: number
+  ) {}
+
+  run(): number[] | null {
+    const twist = get_twist(this.cubies.co);
+    const flip = get_flip(this.cubies.eo);
+    const slice = get_slice(this.cubies.ep);
+    try {
+      for (let depth = 0; depth <= this.maxLength && !this.best; depth++) {
+        this.searchPhase1(twist, flip, slice, depth, -1);
+      }
+    } catch (e) {
+      // Out of time or positions: settle for the best solution so far, if there is one
+      if (!(e instanceof OutOfBudget) || !this.best) {
+        throw e;
+      }
+    }
+    return this.best;
+  }
+
+  private tick() {
+    if (++this.nodes > this.maxNodes) {
+      throw new OutOfBudget(`${this.maxNodes} positions`);
+    }
+    if (this.nodes % 4096 === 0 && Date.now() > this.deadline) {
+      throw new OutOfBudget();
+    }
+  }
+
+  private searchPhase1(twist: number, flip: number, slice: number, depth: number, lastFace: number) {
+    this.tick();
+    if (depth === 0) {
+      // A phase 1 ending in a G1 move was already tried as a shorter phase 1
+      const last = this.phase1[this.phase1.length - 1];
+      if (twist === 0 && flip === 0 && slice === 0 && (last === undefined || !phase2_moves.includes(last))) {
+        this.startPhase2(lastFace);
+      }
+      return;
+    }
+
+    const { twistMove, flipMove, sliceMove, sliceTwistPrune, sliceFlipPrune } = this.tables;
+    for (let face = 0; face < 6; face++) {
+      // Turning the same face twice, or opposite faces in both orders, only repeats other sequences
+      if (face === lastFace || face === lastFace - 3) {
+        continue;
+      }
+      for (let m = face * 3; m < face * 3 + 3; m++) {
+        const twist2 = twistMove[twist * N_MOVES + m];
+        const flip2 = flipMove[flip * N_MOVES + m];
+        const slice2 = sliceMove[slice * N_MOVES + m];
+        const estimate = Math.max(sliceTwistPrune[slice2 * N_TWIST + twist2], sliceFlipPrune[slice2 * N_FLIP + flip2]);
+        if (estimate >= depth) {
+          continue;
+        }
+        this.phase1.push(m);
+        this.searchPhase1(twist2, flip2, slice2, depth - 1, face);
+        this.phase1.pop();
+      }
+    }
+  }
+
+  private startPhase2(lastFace: number) {
+    const cubies = apply_moves_to_cubies(
+      this.cubies,
+      this.phase1.map((m) => move_names[m])
+    );
+    const cornerPerm = get_perm(cubies.cp);
+    const edgePerm = get_perm(cubies.ep.slice(0, 8));
+    const slicePerm = get_perm(cubies.ep.slice(8).map((e) => e - 8));
+
+    // Only a solution shorter than the best so far is worth finding
+    const limit = (this.best ? this.best.length - 1 : this.maxLength) - this.phase1.length;
+    for (let depth = 0; depth <= limit; depth++) {
+      if (this.searchPhase2(cornerPerm, edgePerm, slicePerm, depth, lastFace)) {
+        this.best = [...this.phase1, ...this.phase2];
+        this.phase2.length = 0;
+        return;
+      }
+    }
+  }
+
+  private searchPhase2(
+    cornerPerm: number,
+    edgePerm: number,
+    slicePerm: number,
+    depth: number,
+    lastFace: number
+  ): boolean {
+    this.tick();
+    if (depth === 0) {
+      return cornerPerm === 0 && edgePerm === 0 && slicePerm === 0;
+    }
+
+    const { cornerPermMove, edgePermMove, slicePermMove, cornerPermPrune, edgePermPrune } = this.tables;
+    for (let i = 0; i < N_PHASE2_MOVES; i++) {
+      const m = phase2_moves[i];
+      const face = Math.floor(m / 3);
+      if (face === lastFace || face === lastFace - 3) {
+        continue;
+      }
+      const cornerPerm2 = cornerPermMove[cornerPerm * N_PHASE2_MOVES + i];
+      const edgePerm2 = edgePermMove[edgePerm * N_PHASE2_MOVES + i];
+      const slicePerm2 = slicePermMove[slicePerm * N_PHASE2_MOVES + i];
+      const estimate = Math.max(
+        cornerPermPrune[slicePerm2 * N_PERM8 + cornerPerm2],
+        edgePermPrune[slicePerm2 * N_PERM8 + edgePerm2]
+      );
+      if (estimate >= depth) {
+        continue;
+      }
+      this.phase2.push(m);
+      if (this.searchPhase2(cornerPerm2, edgePerm2, slicePerm2, depth - 1, face)) {
+        return true;
+      }
+      this.phase2.pop();
+    }
+    return false;
+  }
+}
+
+/**
+ * Finds a sequence of moves that solves the cube, using only outer face turns.
+ * If the cube is not held with its centers in their solved positions, the solution starts with
+ * the rotation that puts them there.
+ * @throws InvalidCubeError if the cube cannot be solved at all
+ * @throws NoSolutionError if no solution within maxLength moves is found before the time or the positions run
+ * out
+ */
+export function solve_cube(cube: Readonly<Cube>, options: SolveOptions = {}): string[] {
+  const { maxLength = 22, timeoutMs = 5000, maxNodes = Infinity } = options;
+  assert_valid_cube(cube);
+  // The tables take seconds to build the first time, which should not count against the search
+  get_tables();
+  const deadline = Date.now() + timeoutMs;
+
+  // The search assumes fixed centers, so first turn the cube the right way up
+  const rotation = find_upright_rotation(cube)!;
+  const upright = apply_moves_to_cube(cube, rotation);
+
+  let solution: number[] | null;
+  try {
+    solution = new Search(cube_to_cubies(upright), maxLength, deadline, maxNodes).run();
+  } catch (e) {
+    if (e instanceof OutOfBudget) {
+      const budget = e.message || `${timeoutMs}ms`;
+      throw new NoSolutionError(`No solution of at most ${maxLength} moves found within ${budget}`);
+    }
+    throw e;
+  }
+  if (!solution) {
+    throw new NoSolutionError(`No solution of at most ${maxLength} moves exists`);
+  }
+  return [...rotation, ...solution.map((m) => move_names[m])];
+}